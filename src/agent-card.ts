@@ -0,0 +1,176 @@
+/**
+ * Agent Card
+ *
+ * Construction de l'AgentCard publiée sur /.well-known/agent.json :
+ * - Fournisseur, documentation, icône et version (configurée ou celle du plugin)
+ * - Skills complets : tags, exemples, modes d'entrée / sortie
+ * - Skills privés, listés uniquement dans la carte étendue (appelants authentifiés)
+ * - Validation de la configuration avant publication
+ */
+
+import { z } from 'zod';
+import {
+  AgentProviderSchema,
+  SkillSchema,
+  type AgentAuthentication,
+  type AgentCapabilities,
+  type AgentCard,
+  type AgentProvider,
+  type Skill
+} from './models.js';
+import { PROTOCOL_VERSION } from './protocol-adapter.js';
+import { hasScope, type AuthScope, type CallerIdentity } from './auth.js';
+
+export type SkillVisibility = 'public' | 'private';
+
+/**
+ * Configured skill - visibility and scopes are not published
+ */
+export interface SkillConfig extends Skill {
+  /** Private skills are only listed in the authenticated extended card (default: public) */
+  visibility?: SkillVisibility;
+  /** Scopes a caller needs to see a private skill (default: send) */
+  scopes?: AuthScope[];
+}
+
+/**
+ * Card metadata of an agent - set at the top level for every agent, or per agent
+ */
+export interface AgentCardConfig {
+  /** Agent version (default: version of the plugin package) */
+  version?: string;
+  provider?: AgentProvider;
+  documentationUrl?: string;
+  iconUrl?: string;
+  /** Modes accepted by skills without inputModes (default: text) */
+  defaultInputModes?: string[];
+  /** Modes produced by skills without outputModes (default: text) */
+  defaultOutputModes?: string[];
+}
+
+/**
+ * What the gateway knows of a served agent
+ */
+export interface AgentCardInput {
+  name: string;
+  description: string;
+  url: string;
+  skills: SkillConfig[];
+  capabilities: AgentCapabilities;
+  authentication?: AgentAuthentication;
+  /** Whether callers can fetch the authenticated extended card */
+  supportsAuthenticatedExtendedCard?: boolean;
+}
+
+const CARD_CONFIG_KEYS = [
+  'version',
+  'provider',
+  'documentationUrl',
+  'iconUrl',
+  'defaultInputModes',
+  'defaultOutputModes'
+] as const;
+
+const ModesSchema = z.array(z.string().min(1)).min(1);
+
+const AgentCardConfigSchema = z.object({
+  version: z.string().min(1).optional(),
+  provider: AgentProviderSchema.optional(),
+  documentationUrl: z.string().url().optional(),
+  iconUrl: z.string().url().optional(),
+  defaultInputModes: ModesSchema.optional(),
+  defaultOutputModes: ModesSchema.optional(),
+  skills: z.array(SkillSchema.extend({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    inputModes: ModesSchema.optional(),
+    outputModes: ModesSchema.optional(),
+    visibility: z.enum(['public', 'private']).optional(),
+    scopes: z.array(z.enum(['send', 'read', 'cancel', 'admin'])).optional()
+  })).optional()
+});
+
+/**
+ * The card settings of a config object, without its other settings
+ */
+export function pickCardConfig(source: AgentCardConfig): AgentCardConfig {
+  const picked: Record<string, unknown> = {};
+  for (const key of CARD_CONFIG_KEYS) {
+    if (source[key] !== undefined) {
+      picked[key] = source[key];
+    }
+  }
+  return picked as AgentCardConfig;
+}
+
+/**
+ * Description of the first problem of a card configuration, if any
+ */
+export function validateAgentCardConfig(config: AgentCardConfig & { skills?: unknown }): string | undefined {
+  const result = AgentCardConfigSchema.safeParse(config);
+  if (!result.success) {
+    const issue = result.error.issues[0]!;
+    return `${issue.path.join('.') || 'card'}: ${issue.message}`;
+  }
+
+  // Skill routing and clients address skills by id
+  const ids = new Set<string>();
+  for (const skill of result.data.skills ?? []) {
+    if (ids.has(skill.id)) {
+      return `skills: duplicate skill id "${skill.id}"`;
+    }
+    ids.add(skill.id);
+  }
+  return undefined;
+}
+
+/**
+ * Skills listed for a caller: the public ones, plus the private ones the
+ * caller has every scope of. Without a caller, only the public skills.
+ */
+export function visibleSkills(skills: SkillConfig[], caller?: CallerIdentity): SkillConfig[] {
+  return skills.filter(skill => {
+    if (skill.visibility !== 'private') {
+      return true;
+    }
+    return caller !== undefined && (skill.scopes ?? ['send']).every(scope => hasScope(caller, scope));
+  });
+}
+
+function toCardSkill(skill: SkillConfig): Skill {
+  return {
+    id: skill.id,
+    name: skill.name,
+    description: skill.description,
+    ...(skill.tags !== undefined ? { tags: skill.tags } : {}),
+    ...(skill.examples !== undefined ? { examples: skill.examples } : {}),
+    ...(skill.inputModes !== undefined ? { inputModes: skill.inputModes } : {}),
+    ...(skill.outputModes !== undefined ? { outputModes: skill.outputModes } : {})
+  };
+}
+
+/**
+ * AgentCard of an agent - the config is expected to be validated
+ * (see validateAgentCardConfig). The skills are listed as given: filter
+ * them with visibleSkills first.
+ */
+export function buildAgentCard(input: AgentCardInput, config: AgentCardConfig = {}): AgentCard {
+  return {
+    name: input.name,
+    description: input.description,
+    url: input.url,
+    ...(config.provider ? { provider: config.provider } : {}),
+    version: config.version ?? '1.0.0',
+    ...(config.documentationUrl ? { documentationUrl: config.documentationUrl } : {}),
+    ...(config.iconUrl ? { iconUrl: config.iconUrl } : {}),
+    capabilities: input.capabilities,
+    ...(input.authentication ? { authentication: input.authentication } : {}),
+    ...(input.supportsAuthenticatedExtendedCard !== undefined
+      ? { supportsAuthenticatedExtendedCard: input.supportsAuthenticatedExtendedCard }
+      : {}),
+    protocolVersion: PROTOCOL_VERSION,
+    defaultInputModes: config.defaultInputModes ?? ['text'],
+    defaultOutputModes: config.defaultOutputModes ?? ['text'],
+    skills: input.skills.map(toCardSkill)
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Authentication
+ *
+ * Identification des appelants A2A :
+ * - Liste de credentials (nom, token, scopes)
+ * - Token via `Authorization: Bearer` ou `X-API-Key`
+ * - Comparaison en temps constant
+ * - JWT signés (voir jwt.ts)
+ * - Isolation des tâches par appelant
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type { AgentAuthentication, Task } from './models.js';
+import { looksLikeJwt, type JwtVerifier } from './jwt.js';
+
+export type AuthScope = 'send' | 'read' | 'cancel' | 'admin';
+
+export const ALL_SCOPES: readonly AuthScope[] = ['send', 'read', 'cancel', 'admin'];
+
+export interface CredentialConfig {
+  /** Caller name, recorded on the tasks it creates */
+  name: string;
+  token: string;
+  /** Granted scopes (default: send, read, cancel) */
+  scopes?: AuthScope[];
+}
+
+export interface CallerIdentity {
+  name: string;
+  scopes: readonly AuthScope[];
+}
+
+export type AuthResult =
+  | { success: true; caller?: CallerIdentity }
+  | { success: false; reason: 'missing_credentials' | 'invalid_credentials' };
+
+const DEFAULT_SCOPES: readonly AuthScope[] = ['send', 'read', 'cancel'];
+
+/**
+ * admin grants every scope
+ */
+export function hasScope(caller: CallerIdentity, scope: AuthScope): boolean {
+  return caller.scopes.includes(scope) || caller.scopes.includes('admin');
+}
+
+/**
+ * Token from `Authorization: Bearer <token>` or `X-API-Key: <token>`
+ */
+export function extractToken(headers: IncomingHttpHeaders): string | undefined {
+  const authorization = headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice(7).trim() || undefined;
+  }
+  const apiKey = headers['x-api-key'];
+  const value = Array.isArray(apiKey) ? apiKey[0] : apiKey;
+  return value?.trim() || undefined;
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+export class Authenticator {
+  private credentials: Array<{ digest: Buffer; caller: CallerIdentity }>;
+
+  constructor(credentials: CredentialConfig[] = [], private jwt?: JwtVerifier) {
+    this.credentials = credentials.map(credential => ({
+      digest: digest(credential.token),
+      caller: { name: credential.name, scopes: credential.scopes ?? DEFAULT_SCOPES }
+    }));
+  }
+
+  /** Without credentials nor JWT every request is accepted anonymously */
+  get enabled(): boolean {
+    return this.credentials.length > 0 || this.jwt !== undefined;
+  }
+
+  /**
+   * Schemes advertised in the AgentCard - undefined when authentication is off
+   */
+  get authentication(): AgentAuthentication | undefined {
+    if (!this.enabled) {
+      return undefined;
+    }
+    // Clients of an OAuth2 server fetch their JWTs from the advertised token endpoint
+    const tokenUrl = this.jwt?.tokenUrl;
+    return {
+      schemes: [
+        'Bearer',
+        ...(this.credentials.length > 0 ? ['ApiKey' as const] : []),
+        ...(tokenUrl ? ['OAuth2' as const] : [])
+      ],
+      ...(tokenUrl ? { credentials: tokenUrl } : {})
+    };
+  }
+
+  authenticate(headers: IncomingHttpHeaders): AuthResult {
+    if (!this.enabled) {
+      return { success: true };
+    }
+
+    const token = extractToken(headers);
+    if (!token) {
+      return { success: false, reason: 'missing_credentials' };
+    }
+
+    // Fixed-length digests, and every credential is compared: the timing
+    // reveals neither the token length nor which entry matched
+    const candidate = digest(token);
+    let caller: CallerIdentity | undefined;
+    for (const credential of this.credentials) {
+      if (timingSafeEqual(candidate, credential.digest) && !caller) {
+        caller = credential.caller;
+      }
+    }
+
+    if (caller) {
+      return { success: true, caller };
+    }
+
+    if (this.jwt && looksLikeJwt(token)) {
+      try {
+        // Own namespace: a token subject cannot pass for a configured credential
+        const claims = this.jwt.verify(token);
+        return { success: true, caller: { ...claims, name: `jwt:${claims.name}` } };
+      } catch {
+        return { success: false, reason: 'invalid_credentials' };
+      }
+    }
+
+    return { success: false, reason: 'invalid_credentials' };
+  }
+}
+
+/**
+ * Tasks belong to the caller that created them (metadata.caller). Admins see
+ * every task; without authentication there is no caller and no restriction.
+ */
+export function canAccessTask(caller: CallerIdentity | undefined, task: Task): boolean {
+  return !caller || hasScope(caller, 'admin') || task.metadata?.caller === caller.name;
+}
+
+/**
+ * Owner to restrict task lists to - undefined when the caller sees every task
+ */
+export function visibleOwner(caller: CallerIdentity | undefined): string | undefined {
+  return caller && !hasScope(caller, 'admin') ? caller.name : undefined;
+}
@@ -0,0 +1,210 @@
+/**
+ * Card Signing
+ *
+ * Signature des AgentCards par JWS détachée (RFC 7515, annexe F) :
+ * - Signature RS256 / ES256 de la forme canonique de la carte (clés triées)
+ * - Champ `signatures` : en-tête protégé et signature, sans le contenu
+ * - Vérification côté client avec des clés épinglées ou un fichier de confiance (JWKS)
+ */
+
+import { createPrivateKey, createPublicKey, sign, verify, type JsonWebKey, type KeyObject } from 'crypto';
+import * as fs from 'fs';
+import type { AgentCard, AgentCardSignature } from './models.js';
+
+export type CardSigningAlgorithm = 'RS256' | 'ES256';
+
+export interface CardSigningConfig {
+  /** PEM private key (RSA, or EC on P-256) */
+  privateKey?: string;
+  /** File holding the PEM private key */
+  privateKeyPath?: string;
+  /** Key id published in the signature header */
+  keyId?: string;
+}
+
+export interface CardVerificationOptions {
+  /** Pinned PEM public keys */
+  publicKeys?: string[];
+  /** Local JWKS file ({ "keys": [...] }) of trusted keys */
+  trustFile?: string;
+  /** Refuse cards that no trusted key has signed, unsigned ones included (default: false) */
+  strict?: boolean;
+}
+
+export type CardVerificationResult =
+  | { verified: true; keyId?: string }
+  | { verified: false; reason: 'unsigned' | 'invalid_signature' };
+
+/**
+ * Thrown by A2AClient in strict mode when a card is unsigned or tampered
+ */
+export class CardVerificationError extends Error {
+  constructor(public reason: 'unsigned' | 'invalid_signature') {
+    super(reason === 'unsigned' ? 'AgentCard is not signed' : 'AgentCard signature is not valid');
+    this.name = 'CardVerificationError';
+  }
+}
+
+interface SignatureHeader {
+  alg?: string;
+  kid?: string;
+}
+
+interface TrustedKey {
+  kid?: string;
+  key: KeyObject;
+}
+
+/**
+ * JSON with object keys sorted at every level - the signed form of a card
+ * (RFC 8785 for the values an AgentCard holds)
+ */
+export function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalize(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Signing input of a detached JWS: the payload is the canonical card without
+ * its signatures
+ */
+function signingInput(card: AgentCard, protectedHeader: string): Buffer {
+  const { signatures: _signatures, ...unsigned } = card;
+  const payload = Buffer.from(canonicalize(unsigned), 'utf8').toString('base64url');
+  return Buffer.from(`${protectedHeader}.${payload}`);
+}
+
+function algorithmOf(key: KeyObject): CardSigningAlgorithm | undefined {
+  if (key.asymmetricKeyType === 'rsa') {
+    return 'RS256';
+  }
+  if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+  return undefined;
+}
+
+export class CardSigner {
+  private key: KeyObject;
+  private algorithm: CardSigningAlgorithm;
+
+  constructor(private config: CardSigningConfig) {
+    const pem = config.privateKey ?? (config.privateKeyPath ? fs.readFileSync(config.privateKeyPath, 'utf8') : undefined);
+    if (!pem) {
+      throw new Error('Card signing needs privateKey or privateKeyPath');
+    }
+    this.key = createPrivateKey(pem);
+
+    const algorithm = algorithmOf(this.key);
+    if (!algorithm) {
+      throw new Error('Card signing key must be an RSA key or an EC key on P-256');
+    }
+    this.algorithm = algorithm;
+  }
+
+  /**
+   * The card with a single signature - previous signatures are replaced
+   */
+  sign(card: AgentCard): AgentCard {
+    const header = {
+      alg: this.algorithm,
+      typ: 'JOSE',
+      ...(this.config.keyId !== undefined ? { kid: this.config.keyId } : {})
+    };
+    const protectedHeader = Buffer.from(JSON.stringify(header), 'utf8').toString('base64url');
+    const data = signingInput(card, protectedHeader);
+    const signature = this.algorithm === 'RS256'
+      ? sign('sha256', data, this.key)
+      : sign('sha256', data, { key: this.key, dsaEncoding: 'ieee-p1363' });
+
+    const { signatures: _signatures, ...unsigned } = card;
+    return { ...unsigned, signatures: [{ protected: protectedHeader, signature: signature.toString('base64url') }] };
+  }
+}
+
+export class CardVerifier {
+  private keys: TrustedKey[];
+
+  constructor(private options: CardVerificationOptions) {
+    this.keys = [
+      ...(options.publicKeys ?? []).map(pem => ({ key: createPublicKey(pem) })),
+      ...(options.trustFile ? loadTrustFile(options.trustFile) : [])
+    ];
+  }
+
+  get strict(): boolean {
+    return this.options.strict ?? false;
+  }
+
+  /**
+   * A card is verified when one of its signatures comes from a trusted key
+   */
+  verify(card: AgentCard): CardVerificationResult {
+    const signatures = card.signatures ?? [];
+    if (signatures.length === 0) {
+      return { verified: false, reason: 'unsigned' };
+    }
+
+    for (const entry of signatures) {
+      const header = decodeHeader(entry);
+      if (header && this.verifySignature(card, entry, header)) {
+        return { verified: true, ...(header.kid !== undefined ? { keyId: header.kid } : {}) };
+      }
+    }
+    return { verified: false, reason: 'invalid_signature' };
+  }
+
+  private verifySignature(card: AgentCard, entry: AgentCardSignature, header: SignatureHeader): boolean {
+    if (header.alg !== 'RS256' && header.alg !== 'ES256') {
+      return false;
+    }
+
+    // Keys without kid are tried for every signature; the algorithm must match the key type
+    const data = signingInput(card, entry.protected);
+    const signature = Buffer.from(entry.signature, 'base64url');
+    const candidates = this.keys.filter(trusted =>
+      (header.kid === undefined || trusted.kid === undefined || trusted.kid === header.kid)
+      && algorithmOf(trusted.key) === header.alg);
+
+    return candidates.some(({ key }) => {
+      try {
+        return header.alg === 'RS256'
+          ? verify('sha256', data, key, signature)
+          : verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+      } catch {
+        return false;
+      }
+    });
+  }
+}
+
+function decodeHeader(entry: AgentCardSignature): SignatureHeader | undefined {
+  try {
+    return JSON.parse(Buffer.from(entry.protected, 'base64url').toString('utf8')) as SignatureHeader;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Trusted keys of a JWKS file - unsupported key types are ignored
+ */
+function loadTrustFile(trustFile: string): TrustedKey[] {
+  const keys = (JSON.parse(fs.readFileSync(trustFile, 'utf8')) as { keys?: Array<JsonWebKey & { kid?: string }> }).keys;
+  return (keys ?? []).flatMap(jwk => {
+    try {
+      const key = createPublicKey({ key: jwk, format: 'jwk' });
+      return [{ ...(jwk.kid !== undefined ? { kid: jwk.kid } : {}), key }];
+    } catch {
+      return [];
+    }
+  });
+}
@@ -2,18 +2,32 @@
  * A2A Client
  * 
  * Client HTTP pour communiquer avec d'autres agents A2A
+ * (vérification optionnelle des AgentCards signées)
  */
 
 import type { AgentCard, Task, TaskSendParams, JSONRPCResponse } from './models.js';
+import { StaticTokenProvider, type TokenProvider } from './token-provider.js';
+import {
+  CardVerificationError,
+  CardVerifier,
+  type CardVerificationOptions,
+  type CardVerificationResult
+} from './card-signing.js';
 
 export interface A2AClientOptions {
   authToken?: string;
+  /** Token source for remote agents behind OAuth2 - takes precedence over authToken */
+  tokenProvider?: TokenProvider;
   timeout?: number;
+  /** Trusted keys of the remote agent's card signatures */
+  cardVerification?: CardVerificationOptions;
 }
 
 export class A2AClient {
   private baseUrl: string;
   private options: A2AClientOptions;
+  private tokenProvider: TokenProvider | undefined;
+  private cardVerifier: CardVerifier | undefined;
   
   constructor(baseUrl: string, options: A2AClientOptions = {}) {
     this.baseUrl = baseUrl.replace(/\/$/, '');
@@ -21,6 +35,9 @@ export class A2AClient {
       timeout: 30000,
       ...options
     };
+    this.tokenProvider = options.tokenProvider
+      ?? (options.authToken ? new StaticTokenProvider(options.authToken) : undefined);
+    this.cardVerifier = options.cardVerification ? new CardVerifier(options.cardVerification) : undefined;
   }
   
   private createAbortController(): { controller: AbortController; clear: () => void } {
@@ -49,149 +66,134 @@ export class A2AClient {
         throw new Error(`Failed to fetch AgentCard: ${response.status} ${response.statusText}`);
       }
       
-      return response.json() as Promise<AgentCard>;
+      return this.checkAgentCard(await response.json() as AgentCard);
     } finally {
       clear();
     }
   }
   
-  async sendTask(params: TaskSendParams): Promise<Task> {
-    const requestId = crypto.randomUUID();
-    const { controller, clear } = this.createAbortController();
-    
-    const rpcRequest = {
-      jsonrpc: '2.0' as const,
-      method: 'tasks/send',
-      params,
-      id: requestId
-    };
-    
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json'
-    };
+  /**
+   * Adopt the authentication requirements of the remote AgentCard
+   * (e.g. the OAuth2 token endpoint) before calling the agent
+   */
+  async discoverAuthentication(): Promise<AgentCard> {
+    const card = await this.getAgentCard();
+    this.tokenProvider?.configure?.(card.authentication, this.baseUrl);
+    return card;
+  }
+  
+  /**
+   * Card with the skills reserved to authenticated callers - when the public
+   * card advertises supportsAuthenticatedExtendedCard
+   */
+  async getAuthenticatedExtendedCard(): Promise<AgentCard> {
+    const rpcResponse = await this.call('agent/authenticatedExtendedCard', {});
     
-    if (this.options.authToken) {
-      headers['Authorization'] = `Bearer ${this.options.authToken}`;
+    if (!rpcResponse.result) {
+      throw new Error('RPC response missing result');
     }
     
-    try {
-      const response = await fetch(`${this.baseUrl}/a2a`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(rpcRequest),
-        signal: controller.signal
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error: ${response.status} ${response.statusText}`);
-      }
-      
-      const rpcResponse = await response.json() as JSONRPCResponse;
-      
-      if (rpcResponse.error) {
-        throw new Error(`RPC error ${rpcResponse.error.code}: ${rpcResponse.error.message}`);
-      }
-      
-      if (!rpcResponse.result) {
-        throw new Error('RPC response missing result');
+    return this.checkAgentCard(rpcResponse.result as AgentCard);
+  }
+  
+  /**
+   * Check the signatures of a card against the trusted keys of cardVerification
+   */
+  verifyAgentCard(card: AgentCard): CardVerificationResult {
+    if (!this.cardVerifier) {
+      throw new Error('No trusted keys: set the cardVerification option');
+    }
+    return this.cardVerifier.verify(card);
+  }
+  
+  /**
+   * In strict mode, unsigned and tampered cards are refused
+   */
+  private checkAgentCard(card: AgentCard): AgentCard {
+    if (this.cardVerifier?.strict) {
+      const result = this.cardVerifier.verify(card);
+      if (result.verified === false) {
+        throw new CardVerificationError(result.reason);
       }
-      
-      return rpcResponse.result as Task;
-    } finally {
-      clear();
     }
+    return card;
   }
   
-  async getTask(taskId: string): Promise<Task> {
-    const requestId = crypto.randomUUID();
-    const { controller, clear } = this.createAbortController();
+  async sendTask(params: TaskSendParams): Promise<Task> {
+    const rpcResponse = await this.call('tasks/send', params);
     
-    const rpcRequest = {
-      jsonrpc: '2.0' as const,
-      method: 'tasks/get',
-      params: { id: taskId },
-      id: requestId
-    };
+    if (!rpcResponse.result) {
+      throw new Error('RPC response missing result');
+    }
     
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json'
-    };
+    return rpcResponse.result as Task;
+  }
+  
+  async getTask(taskId: string): Promise<Task> {
+    const rpcResponse = await this.call('tasks/get', { id: taskId });
     
-    if (this.options.authToken) {
-      headers['Authorization'] = `Bearer ${this.options.authToken}`;
+    if (!rpcResponse.result) {
+      throw new Error('RPC response missing result');
     }
     
-    try {
-      const response = await fetch(`${this.baseUrl}/a2a`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(rpcRequest),
-        signal: controller.signal
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error: ${response.status} ${response.statusText}`);
-      }
-      
-      const rpcResponse = await response.json() as JSONRPCResponse;
-      
-      if (rpcResponse.error) {
-        throw new Error(`RPC error ${rpcResponse.error.code}: ${rpcResponse.error.message}`);
-      }
-      
-      if (!rpcResponse.result) {
-        throw new Error('RPC response missing result');
-      }
-      
-      return rpcResponse.result as Task;
-    } finally {
-      clear();
-    }
+    return rpcResponse.result as Task;
   }
   
   async cancelTask(taskId: string): Promise<boolean> {
-    const requestId = crypto.randomUUID();
-    const { controller, clear } = this.createAbortController();
+    const rpcResponse = await this.call('tasks/cancel', { id: taskId });
     
+    return (rpcResponse.result as { canceled: boolean })?.canceled ?? false;
+  }
+  
+  /**
+   * JSON-RPC call - a 401 drops the cached token and retries once
+   */
+  private async call(method: string, params: unknown): Promise<JSONRPCResponse> {
     const rpcRequest = {
       jsonrpc: '2.0' as const,
-      method: 'tasks/cancel',
-      params: { id: taskId },
-      id: requestId
-    };
-    
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json'
+      method,
+      params,
+      id: crypto.randomUUID()
     };
     
-    if (this.options.authToken) {
-      headers['Authorization'] = `Bearer ${this.options.authToken}`;
-    }
-    
-    try {
-      const response = await fetch(`${this.baseUrl}/a2a`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(rpcRequest),
-        signal: controller.signal
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error: ${response.status} ${response.statusText}`);
+    for (let attempt = 1; ; attempt++) {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      };
+      
+      if (this.tokenProvider) {
+        headers['Authorization'] = `Bearer ${await this.tokenProvider.getToken()}`;
       }
       
-      const rpcResponse = await response.json() as JSONRPCResponse;
-      
-      if (rpcResponse.error) {
-        throw new Error(`RPC error ${rpcResponse.error.code}: ${rpcResponse.error.message}`);
+      const { controller, clear } = this.createAbortController();
+      try {
+        const response = await fetch(`${this.baseUrl}/a2a`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(rpcRequest),
+          signal: controller.signal
+        });
+        
+        if (response.status === 401 && attempt === 1 && this.tokenProvider?.invalidate) {
+          this.tokenProvider.invalidate();
+          continue;
+        }
+        
+        if (!response.ok) {
+          throw new Error(`HTTP error: ${response.status} ${response.statusText}`);
+        }
+        
+        const rpcResponse = await response.json() as JSONRPCResponse;
+        
+        if (rpcResponse.error) {
+          throw new Error(`RPC error ${rpcResponse.error.code}: ${rpcResponse.error.message}`);
+        }
+        
+        return rpcResponse;
+      } finally {
+        clear();
       }
-      
-      return (rpcResponse.result as { canceled: boolean })?.canceled ?? false;
-    } finally {
-      clear();
     }
   }
 }
@@ -0,0 +1,111 @@
+/**
+ * CORS
+ *
+ * Accès depuis les navigateurs :
+ * - Origines, méthodes et en-têtes autorisés configurables
+ * - Réponse aux requêtes preflight (OPTIONS)
+ * - En-têtes CORS posés avant le routage, donc aussi sur les flux SSE
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+
+export interface CorsOptions {
+  /** Origins allowed to call the agent, or "*" for any (default: none) */
+  allowedOrigins?: string[];
+  /** Methods allowed in cross-origin requests (default: GET, POST, OPTIONS) */
+  allowedMethods?: string[];
+  /** Request headers browsers may send (default: Content-Type, Authorization, X-API-Key, Last-Event-ID) */
+  allowedHeaders?: string[];
+  /** Response headers readable by scripts (default: Retry-After, WWW-Authenticate) */
+  exposedHeaders?: string[];
+  /** Allow cookies and HTTP authentication (default: false) */
+  allowCredentials?: boolean;
+  /** How long browsers may cache a preflight response (default: 600) */
+  maxAgeSec?: number;
+}
+
+export const DEFAULT_CORS: Required<Omit<CorsOptions, 'allowedOrigins'>> = {
+  allowedMethods: ['GET', 'POST', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'Last-Event-ID'],
+  exposedHeaders: ['Retry-After', 'WWW-Authenticate'],
+  allowCredentials: false,
+  maxAgeSec: 600
+};
+
+export class Cors {
+  private options: Required<CorsOptions>;
+
+  constructor(options: CorsOptions = {}) {
+    this.options = {
+      allowedOrigins: options.allowedOrigins ?? [],
+      allowedMethods: options.allowedMethods ?? DEFAULT_CORS.allowedMethods,
+      allowedHeaders: options.allowedHeaders ?? DEFAULT_CORS.allowedHeaders,
+      exposedHeaders: options.exposedHeaders ?? DEFAULT_CORS.exposedHeaders,
+      allowCredentials: options.allowCredentials ?? DEFAULT_CORS.allowCredentials,
+      maxAgeSec: options.maxAgeSec ?? DEFAULT_CORS.maxAgeSec
+    };
+  }
+
+  get enabled(): boolean {
+    return this.options.allowedOrigins.length > 0;
+  }
+
+  /**
+   * Value of Access-Control-Allow-Origin for this origin - undefined when not allowed.
+   * Credentialed requests cannot use "*": the origin is echoed instead.
+   */
+  private allowOrigin(origin: string | undefined): string | undefined {
+    if (!origin) {
+      return undefined;
+    }
+    if (this.options.allowedOrigins.includes('*')) {
+      return this.options.allowCredentials ? origin : '*';
+    }
+    return this.options.allowedOrigins.includes(origin) ? origin : undefined;
+  }
+
+  /**
+   * Set the CORS headers of an actual request - writeHead keeps them,
+   * including on SSE responses
+   */
+  apply(req: IncomingMessage, res: ServerResponse): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    // The response depends on the Origin unless every origin gets "*"
+    const allowOrigin = this.allowOrigin(req.headers.origin);
+    if (allowOrigin !== '*') {
+      res.setHeader('Vary', 'Origin');
+    }
+    if (!allowOrigin) {
+      return;
+    }
+
+    res.setHeader('Access-Control-Allow-Origin', allowOrigin);
+    if (this.options.allowCredentials) {
+      res.setHeader('Access-Control-Allow-Credentials', 'true');
+    }
+    if (this.options.exposedHeaders.length > 0) {
+      res.setHeader('Access-Control-Expose-Headers', this.options.exposedHeaders.join(', '));
+    }
+  }
+
+  /**
+   * Answer a preflight request - apply() must have run first. Without the
+   * allow headers, the browser blocks the actual request.
+   */
+  handlePreflight(req: IncomingMessage, res: ServerResponse): void {
+    const requestedMethod = req.headers['access-control-request-method'];
+    const allowed = this.allowOrigin(req.headers.origin) !== undefined
+      && (!requestedMethod || this.options.allowedMethods.includes(requestedMethod.toUpperCase()));
+
+    if (allowed) {
+      res.setHeader('Access-Control-Allow-Methods', this.options.allowedMethods.join(', '));
+      res.setHeader('Access-Control-Allow-Headers', this.options.allowedHeaders.join(', '));
+      res.setHeader('Access-Control-Max-Age', String(this.options.maxAgeSec));
+    }
+    res.writeHead(204);
+    res.end();
+  }
+}
@@ -4,23 +4,112 @@
  * Extension permettant la communication agent-to-agent via le protocole A2A.
  * 
  * Endpoints exposés :
- * - GET /.well-known/agent.json  : AgentCard pour découverte
- * - POST /a2a                    : Endpoint JSON-RPC A2A
+ * - GET /.well-known/agent.json  : AgentCard de l'agent par défaut
+ * - POST /a2a                    : Endpoint JSON-RPC A2A (agent par défaut)
+ * - GET /a2a/tasks/:id/events     : Flux SSE d'une tâche (Last-Event-ID)
+ * - GET /a2a/agent/authenticatedExtendedCard : AgentCard avec les skills privés
+ *
+ * Les AgentCards peuvent être signées (JWS détachée, voir card-signing.ts).
+ *
+ * Avec plusieurs agents configurés, chacun est servi sous /a2a/<agentId>
+ * (même routes, AgentCard sur /a2a/<agentId>/.well-known/agent.json) avec
+ * ses propres tâches.
  */
 
 import type { IncomingMessage, ServerResponse } from "http";
-import type { AgentCard, JSONRPCResponse, TaskEvent, TaskSendSubscribeParams } from "./models.js";
-import { handleRPC, SSE_STREAM_MARKER, type SSEStreamResponse } from "./rpc-handler.js";
-import { taskManager } from "./task-manager.js";
-import { initializeA2AExtension, getA2AHandler, type A2AConfig, type OpenClawPluginApi } from "./integration.js";
+import type { AgentCard, JSONRPCResponse, Task, TaskEvent, TaskSendSubscribeParams, TaskState } from "./models.js";
+import {
+  handleRPC,
+  handleRPCBatch,
+  isNotification,
+  presentTask,
+  taskErrorResponse,
+  getRetryAfter,
+  SSE_STREAM_MARKER,
+  type RPCContext,
+  type SSEStreamResponse
+} from "./rpc-handler.js";
+import { TaskManager, taskManager, isTerminalState, type SchedulerOptions, type TaskHandler } from "./task-manager.js";
+import { RetentionService, type RetentionServiceOptions } from "./retention.js";
+import { PushNotificationService, pushNotifications, type PushNotificationOptions } from "./push-notifications.js";
+import { createTaskStore, InMemoryTaskStore, type TaskStore, type TaskStoreConfig } from "./task-store.js";
+import { attachOpenClawHandler, type A2AConfig, type PluginRuntime } from "./integration.js";
+import {
+  Authenticator,
+  ALL_SCOPES,
+  hasScope,
+  canAccessTask,
+  visibleOwner,
+  type AuthScope,
+  type CallerIdentity,
+  type CredentialConfig
+} from "./auth.js";
+import { JwtVerifier, type JwtConfig } from "./jwt.js";
+import { RateLimiter, type RateLimitOptions } from "./rate-limit.js";
+import { DEFAULT_PAYLOAD_LIMITS, PayloadTooLargeError, readBody, type PayloadLimits } from "./payload-limits.js";
+import { Cors, type CorsOptions } from "./cors.js";
+import { toCurrentEvent, type ProtocolDialect } from "./protocol-adapter.js";
+import {
+  buildAgentCard as buildCard,
+  pickCardConfig,
+  validateAgentCardConfig,
+  visibleSkills,
+  type AgentCardConfig,
+  type SkillConfig
+} from "./agent-card.js";
+import { CardSigner, type CardSigningConfig } from "./card-signing.js";
 
-interface A2AExtensionState {
+/**
+ * One A2A peer served by the gateway - card settings override the top-level ones
+ */
+interface A2AAgentConfig extends AgentCardConfig {
+  /** Path segment: the agent is served at /a2a/<id> */
+  id: string;
+  name: string;
+  description: string;
+  skills?: SkillConfig[];
+  /** Bearer token of this agent (defaults to the top-level authToken) */
+  authToken?: string;
+  /** Callers of this agent (defaults to the top-level credentials) */
+  credentials?: CredentialConfig[];
+  /** JWT settings merged over the top-level ones (e.g. its own audience) - false: no JWTs */
+  jwt?: JwtConfig | false;
+  /** OpenClaw agent receiving the tasks (gateway default if not set) */
+  openclawAgentId?: string;
+}
+
+/**
+ * Card settings (version, provider, ...) apply to every agent
+ */
+interface A2AExtensionState extends AgentCardConfig {
   enabled: boolean;
   port: number;
   authToken?: string;
+  /** Named callers with their scopes - authToken is a caller with every scope */
+  credentials?: CredentialConfig[];
+  /** Accept signed JWTs as Bearer tokens */
+  jwt?: JwtConfig;
   agentName: string;
   agentDescription: string;
-  skills: Array<{ id: string; name: string; description: string }>;
+  skills: SkillConfig[];
+  openclawAgentId?: string;
+  /** Several A2A peers - replaces agentName / agentDescription / skills */
+  agents?: A2AAgentConfig[];
+  /** Agent served at /a2a and /.well-known/agent.json (default: first agent) */
+  defaultAgent?: string;
+  taskStore?: TaskStoreConfig;
+  scheduler?: SchedulerOptions;
+  taskTimeoutMs?: number;
+  retention?: RetentionServiceOptions;
+  pushNotifications?: PushNotificationOptions;
+  /** Per-caller limits of task sends, shared by every agent */
+  rateLimit?: RateLimitOptions;
+  /** Request body and message size limits */
+  payloadLimits?: PayloadLimits;
+  /** Browser access: allowed origins, methods and headers */
+  cors?: CorsOptions;
+  /** Sign the AgentCards with this private key */
+  cardSigning?: CardSigningConfig;
 }
 
 // Stub type for OpenClaw API - will be properly typed when loaded by OpenClaw
@@ -37,6 +126,7 @@ interface OpenClawPluginApiStub {
     };
   };
   pluginConfig?: Record<string, unknown>;
+  runtime?: PluginRuntime;
   logger: {
     info: (message: string) => void;
     error: (message: string) => void;
@@ -46,6 +136,38 @@ interface OpenClawPluginApiStub {
   registerService: (service: { id: string; start: () => void | Promise<void>; stop?: () => void | Promise<void> }) => void;
 }
 
+const DEFAULT_AGENT_ID = 'default';
+const AGENT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const RESERVED_AGENT_IDS = new Set(['tasks', 'usage', 'agent']);
+
+// Task managers of the agents other than the default one, by agent id
+const agentTaskManagers = new Map<string, TaskManager>();
+let defaultAgentId: string | undefined;
+
+function getAgentTaskManager(agentId?: string): TaskManager {
+  if (agentId === undefined || agentId === defaultAgentId) {
+    return taskManager;
+  }
+  let manager = agentTaskManagers.get(agentId);
+  if (!manager) {
+    manager = new TaskManager();
+    agentTaskManagers.set(agentId, manager);
+  }
+  return manager;
+}
+
+/**
+ * Runtime state of a served agent: its card, routes and task namespace
+ */
+interface AgentRuntime {
+  config: A2AAgentConfig;
+  basePath: string;
+  authenticator: Authenticator;
+  taskManager: TaskManager;
+  pushNotifications: PushNotificationService;
+  retention: RetentionService;
+}
+
 export default function register(api: OpenClawPluginApiStub): void {
   const config = api.pluginConfig as unknown as A2AExtensionState | undefined;
   
@@ -57,42 +179,227 @@ export default function register(api: OpenClawPluginApiStub): void {
   // After this point, config is guaranteed to be defined (early return above)
   const a2aConfig = config as A2AExtensionState;
 
-  // Initialize with OpenClaw runtime
-  initializeA2AExtension(api as unknown as OpenClawPluginApi);
-
   const basePath = '/a2a';
   const agentCardPath = '/.well-known/agent.json';
 
-  function buildAgentCard(): AgentCard {
+  /**
+   * Card settings of an agent: its own, then the top-level ones, then the
+   * version of the plugin
+   */
+  function getCardConfig(agent: A2AAgentConfig): AgentCardConfig {
+    return {
+      ...(api.version ? { version: api.version } : {}),
+      ...pickCardConfig(a2aConfig),
+      ...pickCardConfig(agent)
+    };
+  }
+
+  /**
+   * A card clients cannot parse would break discovery: such agents are not served
+   */
+  function checkCardConfig(agent: A2AAgentConfig): boolean {
+    const violation = validateAgentCardConfig({ ...getCardConfig(agent), skills: agent.skills ?? [] });
+    if (violation) {
+      api.logger.error(`A2A: invalid AgentCard settings of agent "${agent.id}" (${violation}), agent skipped`);
+      return false;
+    }
+    return true;
+  }
+
+  // Without an agents list, the top-level settings describe a single agent at /a2a
+  const multiAgent = (a2aConfig.agents?.length ?? 0) > 0;
+  const agentConfigs: A2AAgentConfig[] = [];
+  if (multiAgent) {
+    for (const agent of a2aConfig.agents!) {
+      // "tasks", "usage" and "agent" would shadow the REST routes of the default agent
+      if (!AGENT_ID_PATTERN.test(agent.id) || RESERVED_AGENT_IDS.has(agent.id)) {
+        api.logger.error(`A2A: invalid agent id "${agent.id}", agent skipped`);
+      } else if (agentConfigs.some(existing => existing.id === agent.id)) {
+        api.logger.error(`A2A: duplicate agent id "${agent.id}", agent skipped`);
+      } else if (checkCardConfig(agent)) {
+        agentConfigs.push(agent);
+      }
+    }
+  } else {
+    const agent: A2AAgentConfig = {
+      id: DEFAULT_AGENT_ID,
+      name: a2aConfig.agentName || 'OpenClaw Agent',
+      description: a2aConfig.agentDescription || 'OpenClaw AI Agent with A2A support',
+      skills: a2aConfig.skills || [],
+      ...(a2aConfig.openclawAgentId ? { openclawAgentId: a2aConfig.openclawAgentId } : {})
+    };
+    if (checkCardConfig(agent)) {
+      agentConfigs.push(agent);
+    }
+  }
+
+  if (agentConfigs.length === 0) {
+    api.logger.error('A2A Protocol extension has no valid agent configured');
+    return;
+  }
+
+  let defaultConfig = agentConfigs[0]!;
+  if (a2aConfig.defaultAgent) {
+    const configured = agentConfigs.find(agent => agent.id === a2aConfig.defaultAgent);
+    if (configured) {
+      defaultConfig = configured;
+    } else {
+      api.logger.error(`A2A: default agent "${a2aConfig.defaultAgent}" not found, using "${defaultConfig.id}"`);
+    }
+  }
+  defaultAgentId = defaultConfig.id;
+
+  // Handlers registered for the default agent before it was known went to a
+  // manager of its own: the default agent is served by the shared one
+  const earlyManager = agentTaskManagers.get(defaultAgentId);
+  if (earlyManager) {
+    for (const [skillId, handler] of earlyManager.getHandlers()) {
+      taskManager.registerHandler(skillId, handler);
+    }
+    agentTaskManagers.delete(defaultAgentId);
+  }
+
+  /**
+   * Give an agent its task namespace: store, scheduler, OpenClaw handler,
+   * push notifications and retention
+   */
+  function createAgentRuntime(agent: A2AAgentConfig): AgentRuntime {
+    const isDefault = agent.id === defaultAgentId;
+    const manager = getAgentTaskManager(agent.id);
+
+    // Task persistence - fall back to memory if the store cannot be opened
+    let store: TaskStore;
+    try {
+      store = createTaskStore(a2aConfig.taskStore, multiAgent ? agent.id : undefined);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      api.logger.error(`A2A task store unavailable, using in-memory store: ${message}`);
+      store = new InMemoryTaskStore();
+    }
+    manager.setStore(store);
+
+    // Bounded execution queue - protects the gateway from bursts of LLM runs
+    manager.configureScheduler({
+      maxConcurrent: 4,
+      maxQueueDepth: 100,
+      ...a2aConfig.scheduler
+    });
+    manager.setDefaultTimeout(a2aConfig.taskTimeoutMs ?? 10 * 60 * 1000);
+
+    const recovered = manager.recoverInterruptedTasks();
+    if (recovered > 0) {
+      api.logger.warn(`A2A: ${recovered} interrupted task(s) of agent ${agent.id} marked as failed after restart`);
+    }
+
+    const handlerConfig: A2AConfig = {
+      enabled: true,
+      port: a2aConfig.port || 0,
+      agentName: agent.name,
+      agentDescription: agent.description,
+      skills: agent.skills || [],
+      ...(agent.openclawAgentId ? { openclawAgentId: agent.openclawAgentId } : {})
+    };
+    attachOpenClawHandler(manager, handlerConfig, api.runtime);
+
+    // Webhook delivery of task events
+    const push = isDefault ? pushNotifications : new PushNotificationService(manager);
+    push.configure(a2aConfig.pushNotifications ?? {}, api.logger);
+
+    // The legacy shared token keeps its full access
+    const authToken = agent.authToken ?? a2aConfig.authToken;
+    const credentials: CredentialConfig[] = [
+      ...(agent.credentials ?? a2aConfig.credentials ?? []),
+      ...(authToken ? [{ name: 'default', token: authToken, scopes: [...ALL_SCOPES] }] : [])
+    ];
+
+    return {
+      config: agent,
+      basePath: multiAgent ? `${basePath}/${agent.id}` : basePath,
+      authenticator: new Authenticator(credentials, createJwtVerifier(agent)),
+      taskManager: manager,
+      pushNotifications: push,
+      retention: new RetentionService(manager, a2aConfig.retention, api.logger)
+    };
+  }
+
+  /**
+   * JWT verifier of an agent: the top-level settings with the agent's own on top
+   */
+  function createJwtVerifier(agent: A2AAgentConfig): JwtVerifier | undefined {
+    if (agent.jwt === false || (!a2aConfig.jwt && !agent.jwt)) {
+      return undefined;
+    }
+    try {
+      return new JwtVerifier({ ...a2aConfig.jwt, ...agent.jwt });
+    } catch (error) {
+      // Fail closed: authentication stays on, but no token can be verified
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      api.logger.error(`A2A JWT public key of agent ${agent.id} unusable, JWTs will be rejected: ${message}`);
+      return new JwtVerifier({ algorithms: [] });
+    }
+  }
+
+  // Shared by every agent - a caller's quota covers all of them
+  const rateLimiter = new RateLimiter(a2aConfig.rateLimit);
+
+  /**
+   * Rate limit key: the caller name, or its address when authentication is off
+   */
+  function getRateLimitKey(req: IncomingMessage, caller?: CallerIdentity): string {
+    return caller ? caller.name : `ip:${req.socket?.remoteAddress ?? 'unknown'}`;
+  }
+
+  const cors = new Cors(a2aConfig.cors);
+
+  // Cards stay unsigned when the key is unusable - strict clients will refuse them
+  let cardSigner: CardSigner | undefined;
+  if (a2aConfig.cardSigning) {
+    try {
+      cardSigner = new CardSigner(a2aConfig.cardSigning);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      api.logger.error(`A2A card signing key unusable, AgentCards will not be signed: ${message}`);
+    }
+  }
+
+  const agents = new Map<string, AgentRuntime>();
+  for (const agent of agentConfigs) {
+    agents.set(agent.id, createAgentRuntime(agent));
+  }
+  const defaultAgent = agents.get(defaultConfig.id)!;
+
+  /**
+   * Public card of an agent, or with a caller its extended card: private
+   * skills are listed when the caller has their scopes. Both are signed
+   * when cardSigning is configured.
+   */
+  function buildAgentCard(agent: AgentRuntime, caller?: CallerIdentity): AgentCard {
     const cfg = api.config;
     const port = a2aConfig.port || 18789;
     const host = cfg.network?.host || 'localhost';
     const protocol = cfg.network?.tls?.enabled ? 'https' : 'http';
     const url = `${protocol}://${host}:${port}`;
 
-    return {
-      name: a2aConfig.agentName,
-      description: a2aConfig.agentDescription,
-      url: `${url}${basePath}`,
-      version: '1.0.0',
+    const card = buildCard({
+      name: agent.config.name,
+      description: agent.config.description,
+      url: `${url}${agent.basePath}`,
+      skills: visibleSkills(agent.config.skills || [], caller),
       capabilities: {
         streaming: true,  // SSE streaming via tasks/sendSubscribe
-        pushNotifications: false,
+        pushNotifications: agent.pushNotifications.enabled,
         stateTransitionHistory: true,
       },
-      defaultInputModes: ['text'],
-      defaultOutputModes: ['text'],
-      skills: a2aConfig.skills.map(skill => ({
-        id: skill.id,
-        name: skill.name,
-        description: skill.description,
-      })),
-    };
+      ...(agent.authenticator.authentication ? { authentication: agent.authenticator.authentication } : {}),
+      // Without authentication there is no caller to extend the card for
+      supportsAuthenticatedExtendedCard: agent.authenticator.enabled
+    }, getCardConfig(agent.config));
+    return cardSigner ? cardSigner.sign(card) : card;
   }
 
-  async function handleAgentCard(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  async function handleAgentCard(agent: AgentRuntime, req: IncomingMessage, res: ServerResponse): Promise<void> {
     try {
-      const agentCard = buildAgentCard();
+      const agentCard = buildAgentCard(agent);
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify(agentCard, null, 2));
     } catch (error) {
@@ -101,15 +408,7 @@ export default function register(api: OpenClawPluginApiStub): void {
     }
   }
 
-  /**
-   * Handle SSE streaming for task subscription
-   */
-  async function handleSSEStream(
-    req: IncomingMessage,
-    res: ServerResponse,
-    params: TaskSendSubscribeParams
-  ): Promise<void> {
-    // Set SSE headers
+  function writeSSEHeaders(res: ServerResponse): void {
     res.writeHead(200, {
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
@@ -118,38 +417,152 @@ export default function register(api: OpenClawPluginApiStub): void {
     if (typeof res.flushHeaders === 'function') {
       res.flushHeaders();
     }
+  }
+
+  /**
+   * Parse the Last-Event-ID header sent by reconnecting SSE clients
+   */
+  function getLastEventId(req: IncomingMessage): number | undefined {
+    const header = req.headers['last-event-id'];
+    const value = parseInt(Array.isArray(header) ? header[0] ?? '' : header ?? '', 10);
+    return Number.isNaN(value) ? undefined : value;
+  }
+
+  /**
+   * SSE payload of a task event: the event itself, or a JSON-RPC response
+   * wrapping its current-dialect form
+   */
+  function eventFormatter(dialect: ProtocolDialect, rpcId?: string | number | null): (event: TaskEvent) => unknown {
+    if (dialect === 'legacy') {
+      return event => event;
+    }
+    return event => ({ jsonrpc: '2.0', id: rpcId ?? null, result: toCurrentEvent(event) });
+  }
 
-    // Create the task
-    const task = await taskManager.createTask(params);
+  /**
+   * Stream the events of a task: replay the buffered events after afterSeq,
+   * then forward live events until the task is terminal or waiting for input.
+   * Every task event - including partial text and artifact chunks from
+   * streaming handlers - is written as soon as it is emitted.
+   */
+  function streamTaskEvents(
+    agent: AgentRuntime,
+    res: ServerResponse,
+    taskId: string,
+    afterSeq: number,
+    format: (event: TaskEvent) => unknown = event => event
+  ): void {
+    const manager = agent.taskManager;
+    // Sequence numbers restart with the process: an ID from before a restart starts over
+    const currentSeq = manager.getLastEventSeq(taskId);
+    const caughtUp = currentSeq > 0 && afterSeq === currentSeq;
+    let lastSeq = afterSeq > currentSeq ? 0 : afterSeq;
+    let sent = false;
 
-    // Send SSE event
+    // Send SSE event - the sequence number lets clients resume with Last-Event-ID
     const sendEvent = (event: TaskEvent) => {
-      res.write(`data: ${JSON.stringify(event)}\n\n`);
+      res.write(`id: ${event.seq}\ndata: ${JSON.stringify(format(event))}\n\n`);
+      lastSeq = event.seq;
+      sent = true;
     };
 
+    const isFinal = (state: TaskState) => isTerminalState(state) || state === 'input-required';
+
     // Handler for task events
     const eventHandler = (event: TaskEvent) => {
-      if (event.task.id === task.id) {
+      if (event.task.id === taskId && event.seq > lastSeq) {
         sendEvent(event);
         
-        // Close stream when task is terminal
-        if (['completed', 'failed', 'canceled'].includes(event.task.status.state)) {
-          taskManager.off('task', eventHandler);
+        // Close stream when task is terminal or waiting for the caller
+        if (isFinal(event.task.status.state)) {
+          manager.off('task', eventHandler);
           res.end();
         }
       }
     };
 
+    // Replay missed events - synchronous, so no live event can slip in between
+    for (const event of manager.getEventsSince(taskId, lastSeq)) {
+      sendEvent(event);
+    }
+
+    const task = manager.getTask(taskId);
+    // The events of a terminal task may have expired: at least tell how it ended
+    if (task && isTerminalState(task.status.state) && !sent && !caughtUp) {
+      sendEvent({ type: 'status', task, seq: currentSeq });
+    }
+    if (!task || isFinal(task.status.state)) {
+      res.end();
+      return;
+    }
+
     // Subscribe to events
-    taskManager.on('task', eventHandler);
+    manager.on('task', eventHandler);
 
     // Cleanup on connection close
     res.on('close', () => {
-      taskManager.off('task', eventHandler);
+      manager.off('task', eventHandler);
     });
   }
 
-  async function handleRPCEndpoint(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  /**
+   * Handle SSE streaming for task subscription
+   */
+  async function handleSSEStream(
+    agent: AgentRuntime,
+    req: IncomingMessage,
+    res: ServerResponse,
+    params: TaskSendSubscribeParams,
+    rpcId?: string | number | null,
+    caller?: CallerIdentity,
+    dialect: ProtocolDialect = 'legacy'
+  ): Promise<void> {
+    writeSSEHeaders(res);
+
+    // Only stream what this message produces when resuming an input-required task
+    const afterSeq = agent.taskManager.getLastEventSeq(params.id);
+
+    // Create the task (or resume it if it was waiting for input)
+    let task: Task;
+    try {
+      task = await agent.taskManager.createTask(params, caller?.name);
+    } catch (error) {
+      // A refused task does not count against the caller's limits
+      rateLimiter.release(getRateLimitKey(req, caller));
+      const errorResponse = taskErrorResponse(error) ?? {
+        jsonrpc: '2.0',
+        error: { code: -32603, message: 'Internal error' },
+        id: undefined
+      };
+      res.write(`data: ${JSON.stringify({ ...errorResponse, id: rpcId ?? null })}\n\n`);
+      res.end();
+      return;
+    }
+
+    streamTaskEvents(agent, res, task.id, afterSeq, eventFormatter(dialect, rpcId));
+  }
+
+  /**
+   * Handle tasks/resubscribe and GET /a2a/tasks/:id/events
+   */
+  function handleResubscribe(
+    agent: AgentRuntime,
+    req: IncomingMessage,
+    res: ServerResponse,
+    taskId: string,
+    lastEventId?: number,
+    format?: (event: TaskEvent) => unknown
+  ): void {
+    writeSSEHeaders(res);
+    streamTaskEvents(agent, res, taskId, lastEventId ?? getLastEventId(req) ?? 0, format);
+  }
+
+  async function handleRPCEndpoint(
+    agent: AgentRuntime,
+    req: IncomingMessage,
+    res: ServerResponse,
+    caller?: CallerIdentity
+  ): Promise<void> {
     try {
       if (req.method !== 'POST') {
         res.writeHead(405, { 'Content-Type': 'application/json' });
@@ -157,24 +570,22 @@ export default function register(api: OpenClawPluginApiStub): void {
         return;
       }
 
-      if (a2aConfig.authToken) {
-        const authHeader = req.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-          res.writeHead(401, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: 'Unauthorized' }));
-          return;
-        }
-        const token = authHeader.slice(7);
-        if (token !== a2aConfig.authToken) {
-          res.writeHead(403, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: 'Forbidden' }));
-          return;
+      let body: string;
+      try {
+        body = await readBody(req, a2aConfig.payloadLimits?.maxBodyBytes ?? DEFAULT_PAYLOAD_LIMITS.maxBodyBytes);
+      } catch (error) {
+        if (!(error instanceof PayloadTooLargeError)) {
+          throw error;
         }
-      }
-
-      let body = '';
-      for await (const chunk of req) {
-        body += chunk.toString();
+        // The unread rest of the body is discarded with the connection
+        const errorResponse: JSONRPCResponse = {
+          jsonrpc: '2.0',
+          error: { code: -32600, message: error.message, data: { maxBodyBytes: error.maxBodyBytes } },
+          id: undefined
+        };
+        res.writeHead(413, { 'Content-Type': 'application/json', 'Connection': 'close' });
+        res.end(JSON.stringify(errorResponse));
+        return;
       }
 
       let rpcRequest: unknown;
@@ -191,12 +602,52 @@ export default function register(api: OpenClawPluginApiStub): void {
         return;
       }
 
-      const response = await handleRPC(rpcRequest);
+      const context: RPCContext = {
+        taskManager: agent.taskManager,
+        pushNotifications: agent.pushNotifications,
+        ...(caller ? { caller } : {}),
+        rateLimit: { limiter: rateLimiter, key: getRateLimitKey(req, caller) },
+        ...(a2aConfig.payloadLimits ? { payloadLimits: a2aConfig.payloadLimits } : {}),
+        extendedCard: extendedCaller => buildAgentCard(agent, extendedCaller),
+        skills: agent.config.skills || []
+      };
+
+      if (Array.isArray(rpcRequest)) {
+        const responses = await handleRPCBatch(rpcRequest, context);
+        if (responses === null) {
+          res.writeHead(204);
+          res.end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(responses));
+        return;
+      }
+
+      const response = await handleRPC(rpcRequest, context);
+
+      // Notifications get no response body
+      if (isNotification(rpcRequest)) {
+        res.writeHead(204);
+        res.end();
+        return;
+      }
       
       // Check if this is an SSE stream response
       if (SSE_STREAM_MARKER in response && (response as SSEStreamResponse)[SSE_STREAM_MARKER]) {
         const sseResponse = response as SSEStreamResponse;
-        return handleSSEStream(req, res, sseResponse.params);
+        if (sseResponse.mode === 'resubscribe') {
+          const format = eventFormatter(sseResponse.dialect, sseResponse.id);
+          return handleResubscribe(agent, req, res, sseResponse.params.id, sseResponse.params.lastEventId, format);
+        }
+        return handleSSEStream(agent, req, res, sseResponse.params, sseResponse.id, caller, sseResponse.dialect);
+      }
+      
+      const retryAfter = getRetryAfter(response);
+      if (retryAfter !== undefined) {
+        res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) });
+        res.end(JSON.stringify(response));
+        return;
       }
       
       res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -216,17 +667,31 @@ export default function register(api: OpenClawPluginApiStub): void {
   // REST ENDPOINTS for tasks
   // =========================================================================
 
+  /**
+   * Task visible to the caller: its own tasks, or every task for admins
+   */
+  function getVisibleTask(agent: AgentRuntime, taskId: string, caller?: CallerIdentity): Task | undefined {
+    const task = agent.taskManager.getTask(taskId);
+    return task && canAccessTask(caller, task) ? task : undefined;
+  }
+
   /**
    * GET /a2a/tasks - List all tasks with pagination
    */
-  async function handleListTasks(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  async function handleListTasks(
+    agent: AgentRuntime,
+    req: IncomingMessage,
+    res: ServerResponse,
+    caller?: CallerIdentity
+  ): Promise<void> {
     try {
       const url = new URL(req.url || '', `http://${req.headers.host}`);
       const limit = parseInt(url.searchParams.get('limit') || '50', 10);
       const cursor = url.searchParams.get('cursor') || undefined;
       const state = url.searchParams.get('state') as TaskEvent['task']['status']['state'] | undefined;
 
-      const result = taskManager.listTasks({ limit, cursor, state });
+      const listed = agent.taskManager.listTasks({ limit, cursor, state }, visibleOwner(caller));
+      const result = { ...listed, tasks: listed.tasks.map(task => presentTask(task, agent.taskManager)) };
 
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({
@@ -247,9 +712,17 @@ export default function register(api: OpenClawPluginApiStub): void {
   /**
    * GET /a2a/tasks/:id - Get a task by ID
    */
-  async function handleGetTask(req: IncomingMessage, res: ServerResponse, taskId: string): Promise<void> {
+  async function handleGetTask(
+    agent: AgentRuntime,
+    req: IncomingMessage,
+    res: ServerResponse,
+    taskId: string,
+    caller?: CallerIdentity
+  ): Promise<void> {
     try {
-      const task = taskManager.getTask(taskId);
+      const url = new URL(req.url || '', `http://${req.headers.host}`);
+      const includeStateTransitions = url.searchParams.get('includeStateTransitions') === 'true';
+      const task = getVisibleTask(agent, taskId, caller);
 
       if (!task) {
         res.writeHead(404, { 'Content-Type': 'application/json' });
@@ -265,7 +738,7 @@ export default function register(api: OpenClawPluginApiStub): void {
       res.end(JSON.stringify({
         jsonrpc: '2.0',
         id: null,
-        result: task
+        result: presentTask(task, agent.taskManager, { includeStateTransitions })
       }));
     } catch {
       res.writeHead(500, { 'Content-Type': 'application/json' });
@@ -277,12 +750,46 @@ export default function register(api: OpenClawPluginApiStub): void {
     }
   }
 
+  /**
+   * GET /a2a/tasks/:id/events - Stream task events, replaying those after Last-Event-ID
+   */
+  async function handleTaskEvents(
+    agent: AgentRuntime,
+    req: IncomingMessage,
+    res: ServerResponse,
+    taskId: string,
+    caller?: CallerIdentity
+  ): Promise<void> {
+    if (!getVisibleTask(agent, taskId, caller)) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32001, message: 'Task not found' }
+      }));
+      return;
+    }
+
+    const url = new URL(req.url || '', `http://${req.headers.host}`);
+    const queryLastEventId = parseInt(url.searchParams.get('lastEventId') || '', 10);
+    handleResubscribe(agent, req, res, taskId, Number.isNaN(queryLastEventId) ? undefined : queryLastEventId);
+  }
+
   /**
    * POST /a2a/tasks/:id/cancel - Cancel a task
    */
-  async function handleCancelTask(req: IncomingMessage, res: ServerResponse, taskId: string): Promise<void> {
+  async function handleCancelTask(
+    agent: AgentRuntime,
+    req: IncomingMessage,
+    res: ServerResponse,
+    taskId: string,
+    caller?: CallerIdentity
+  ): Promise<void> {
     try {
-      const result = taskManager.cancelTask(taskId);
+      // Other callers' tasks are reported as not found
+      const result = getVisibleTask(agent, taskId, caller)
+        ? agent.taskManager.cancelTask(taskId)
+        : { success: false as const, reason: 'not_found' as const };
 
       if (!result.success) {
         if (result.reason === 'not_found') {
@@ -303,7 +810,7 @@ export default function register(api: OpenClawPluginApiStub): void {
         return;
       }
 
-      const task = taskManager.getTask(taskId);
+      const task = agent.taskManager.getTask(taskId);
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({
         jsonrpc: '2.0',
@@ -320,56 +827,220 @@ export default function register(api: OpenClawPluginApiStub): void {
     }
   }
 
-  async function handleA2ARequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
-    const url = req.url || '';
+  /**
+   * GET /a2a/usage - Task sends of every caller today (admin)
+   */
+  function handleUsage(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url || '', `http://${req.headers.host}`);
+    const caller = url.searchParams.get('caller') ?? undefined;
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      jsonrpc: '2.0',
+      id: null,
+      result: { callers: rateLimiter.getUsage(caller) }
+    }));
+  }
+
+  /**
+   * GET /a2a/agent/authenticatedExtendedCard - Card with the private skills
+   * visible to the caller
+   */
+  function handleExtendedCard(agent: AgentRuntime, res: ServerResponse, caller?: CallerIdentity): void {
+    if (!caller) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Authenticated extended card is not configured' }));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(buildAgentCard(agent, caller), null, 2));
+  }
+
+  /**
+   * Check the scope of a REST route - writes 403 when the caller lacks it
+   */
+  function authorize(caller: CallerIdentity | undefined, scope: AuthScope, res: ServerResponse): boolean {
+    if (!caller || hasScope(caller, scope)) {
+      return true;
+    }
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Forbidden', scope }));
+    return false;
+  }
+
+  /**
+   * Routes of one agent, relative to its base path
+   */
+  async function handleAgentRequest(
+    agent: AgentRuntime,
+    req: IncomingMessage,
+    res: ServerResponse,
+    subPath: string
+  ): Promise<void> {
+    // Agent card - public, used for discovery
+    if (subPath === agentCardPath && req.method === 'GET') {
+      return handleAgentCard(agent, req, res);
+    }
+
+    // Every other route requires a known caller when credentials are configured
+    const auth = agent.authenticator.authenticate(req.headers);
+    if (auth.success === false) {
+      if (auth.reason === 'missing_credentials') {
+        res.writeHead(401, { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' });
+        res.end(JSON.stringify({ error: 'Unauthorized' }));
+      } else {
+        res.writeHead(403, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Forbidden' }));
+      }
+      return;
+    }
+    const caller = auth.caller;
     
-    // Agent card
-    if (url === agentCardPath && req.method === 'GET') {
-      return handleAgentCard(req, res);
+    // JSON-RPC endpoint - scopes are checked per method
+    if (subPath === '' && req.method === 'POST') {
+      return handleRPCEndpoint(agent, req, res, caller);
     }
     
-    // JSON-RPC endpoint
-    if (url === basePath && req.method === 'POST') {
-      return handleRPCEndpoint(req, res);
+    // REST: Task event stream (SSE, resumable with Last-Event-ID)
+    const eventsMatch = subPath.match(/^\/tasks\/([^/]+)\/events$/);
+    if (eventsMatch && eventsMatch[1] && req.method === 'GET') {
+      if (!authorize(caller, 'read', res)) {
+        return;
+      }
+      return handleTaskEvents(agent, req, res, eventsMatch[1], caller);
     }
     
     // REST: List tasks
-    if (url.startsWith(`${basePath}/tasks`) && req.method === 'GET') {
-      const taskIdMatch = url.match(/\/a2a\/tasks\/([^/]+)$/);
+    if (subPath.startsWith('/tasks') && req.method === 'GET') {
+      const taskIdMatch = subPath.match(/^\/tasks\/([^/]+)$/);
       if (taskIdMatch && taskIdMatch[1]) {
-        return handleGetTask(req, res, taskIdMatch[1]);
+        if (!authorize(caller, 'read', res)) {
+          return;
+        }
+        return handleGetTask(agent, req, res, taskIdMatch[1], caller);
+      }
+      if (subPath === '/tasks') {
+        if (!authorize(caller, 'read', res)) {
+          return;
+        }
+        return handleListTasks(agent, req, res, caller);
       }
-      if (url === `${basePath}/tasks` || url.startsWith(`${basePath}/tasks?`)) {
-        return handleListTasks(req, res);
+    }
+    
+    // REST: Extended card - its skills depend on the caller's scopes
+    if (subPath === '/agent/authenticatedExtendedCard' && req.method === 'GET') {
+      return handleExtendedCard(agent, res, caller);
+    }
+
+    // REST: Usage of the callers
+    if (subPath === '/usage' && req.method === 'GET') {
+      if (!authorize(caller, 'admin', res)) {
+        return;
       }
+      return handleUsage(req, res);
     }
     
     // REST: Cancel task
-    const cancelMatch = url.match(/\/a2a\/tasks\/([^/]+)\/cancel$/);
+    const cancelMatch = subPath.match(/^\/tasks\/([^/]+)\/cancel$/);
     if (cancelMatch && cancelMatch[1] && req.method === 'POST') {
-      return handleCancelTask(req, res, cancelMatch[1]);
+      if (!authorize(caller, 'cancel', res)) {
+        return;
+      }
+      return handleCancelTask(agent, req, res, cancelMatch[1], caller);
     }
     
     res.writeHead(404, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({ error: 'Not found' }));
   }
 
+  async function handleA2ARequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = req.url || '';
+    const pathname = url.split('?')[0] || '';
+    const isA2APath = pathname === agentCardPath || pathname === basePath || pathname.startsWith(`${basePath}/`);
+
+    // Before routing, so that every response - SSE streams included - carries them
+    if (isA2APath) {
+      cors.apply(req, res);
+    }
+
+    // Preflight - browsers send no credentials, so it precedes authentication
+    if (isA2APath && req.method === 'OPTIONS' && cors.enabled) {
+      return cors.handlePreflight(req, res);
+    }
+    
+    // Discovery: card of the default agent
+    if (pathname === agentCardPath && req.method === 'GET') {
+      return handleAgentCard(defaultAgent, req, res);
+    }
+
+    if (pathname !== basePath && !pathname.startsWith(`${basePath}/`)) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Not found' }));
+      return;
+    }
+
+    // /a2a/<agentId>/... addresses a named agent, anything else the default one
+    const segment = pathname.slice(basePath.length + 1).split('/')[0] || '';
+    const agent = multiAgent ? agents.get(segment) : undefined;
+    if (agent) {
+      return handleAgentRequest(agent, req, res, pathname.slice(agent.basePath.length));
+    }
+    return handleAgentRequest(defaultAgent, req, res, pathname.slice(basePath.length));
+  }
+
+  api.registerHttpRoute({
+    path: basePath,
+    handler: handleA2ARequest
+  });
+
   api.registerHttpRoute({
-    path: '/a2a',
+    path: agentCardPath,
     handler: handleA2ARequest
   });
 
   api.registerService({
     id: 'a2a-protocol',
     start: async () => {
+      for (const agent of agents.values()) {
+        agent.retention.start();
+        agent.pushNotifications.start();
+      }
       api.logger.info('A2A Protocol service started');
     },
     stop: async () => {
+      for (const agent of agents.values()) {
+        agent.retention.stop();
+        agent.pushNotifications.stop();
+      }
       api.logger.info('A2A Protocol service stopped');
     }
   });
 
-  api.logger.info(`A2A Protocol extension registered at ${basePath}`);
+  for (const agent of agents.values()) {
+    api.logger.info(`A2A Protocol agent "${agent.config.name}" registered at ${agent.basePath}`);
+  }
+}
+
+/**
+ * Route the A2A tasks requesting skillId (in message or request metadata)
+ * to a dedicated handler instead of the OpenClaw dispatch. Without agentId,
+ * the handler serves the default agent.
+ */
+export function registerSkillHandler(skillId: string, handler: TaskHandler, agentId?: string): void {
+  getAgentTaskManager(agentId).registerHandler(skillId, handler);
 }
 
 export type { A2AExtensionState };
+export type { TaskHandler, TaskContext, TaskHandlerResult, TaskHandlerUpdate } from "./task-manager.js";
+export { A2AClient, createA2AClient, type A2AClientOptions } from "./client.js";
+export {
+  StaticTokenProvider,
+  ClientCredentialsTokenProvider,
+  type TokenProvider,
+  type ClientCredentialsOptions
+} from "./token-provider.js";
+export {
+  CardVerificationError,
+  type CardVerificationOptions,
+  type CardVerificationResult
+} from "./card-signing.js";
@@ -7,8 +7,8 @@
  * This file handles both standalone mode and OpenClaw-integrated mode.
  */
 
-import type { Message, Artifact, TextPart } from "./models.js";
-import { taskManager, type TaskHandler } from "./task-manager.js";
+import type { Message, Artifact, Skill, TextPart } from "./models.js";
+import { taskManager, type TaskContext, type TaskHandlerUpdate, type TaskManager } from "./task-manager.js";
 import { TextPartSchema } from "./models.js";
 
 // Type definitions for OpenClaw integration (optional)
@@ -18,7 +18,9 @@ interface A2AConfig {
   authToken?: string;
   agentName: string;
   agentDescription: string;
-  skills: Array<{ id: string; name: string; description: string }>;
+  skills: Skill[];
+  /** OpenClaw agent receiving the messages (gateway default if not set) */
+  openclawAgentId?: string;
 }
 
 // Stub types for OpenClaw integration - these will be properly typed when loaded by OpenClaw
@@ -38,6 +40,11 @@ interface MsgContext {
   [key: string]: unknown;
 }
 
+interface ReplyPayload {
+  text?: string;
+  [key: string]: unknown;
+}
+
 interface PluginRuntime {
   config: {
     loadConfig: () => Record<string, unknown>;
@@ -51,6 +58,11 @@ interface PluginRuntime {
           provider: string;
           to: string;
           enrichedContext: MsgContext;
+          deliver?: (payload: ReplyPayload, info: { kind: 'tool' | 'block' | 'final' }) => Promise<void> | void;
+        };
+        replyOptions?: {
+          abortSignal?: AbortSignal;
+          onPartialReply?: (payload: ReplyPayload) => Promise<void> | void;
         };
       }) => Promise<{ queuedFinal?: Array<{ text: string }> }>;
     };
@@ -67,10 +79,53 @@ interface OpenClawPluginApi {
   };
 }
 
+/**
+ * Bridge from dispatcher callbacks to an async iterator
+ */
+class UpdateChannel<T> implements AsyncIterable<T> {
+  private items: T[] = [];
+  private waiting: (() => void) | null = null;
+  private done = false;
+  private error: unknown = undefined;
+
+  push(item: T): void {
+    this.items.push(item);
+    this.wake();
+  }
+
+  end(error?: unknown): void {
+    this.done = true;
+    this.error = error;
+    this.wake();
+  }
+
+  private wake(): void {
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    while (true) {
+      const item = this.items.shift();
+      if (item !== undefined) {
+        yield item;
+        continue;
+      }
+      if (this.done) {
+        if (this.error !== undefined) {
+          throw this.error;
+        }
+        return;
+      }
+      await new Promise<void>(resolve => { this.waiting = resolve; });
+    }
+  }
+}
+
 export class OpenClawTaskHandler {
   private runtime?: PluginRuntime;
   private config: A2AConfig;
-  private agentId: string = "default";
 
   constructor(config: A2AConfig, runtime?: PluginRuntime) {
     this.config = config;
@@ -79,45 +134,115 @@ export class OpenClawTaskHandler {
     }
   }
 
-  async handle(a2aMessage: Message): Promise<{ response: Message; artifacts?: Artifact[] }> {
+  /**
+   * Run the message through OpenClaw and collect the final response
+   */
+  async handle(a2aMessage: Message, context?: TaskContext): Promise<{ response: Message; artifacts?: Artifact[] }> {
+    let streamed = '';
+    let response: Message | undefined;
+
+    for await (const update of this.stream(a2aMessage, context)) {
+      if (update.type === 'text') {
+        streamed += update.text;
+      } else if (update.type === 'result' && update.response) {
+        response = update.response;
+      }
+    }
+
+    return {
+      response: response ?? { role: 'agent', parts: [{ type: 'text', text: streamed }] }
+    };
+  }
+
+  /**
+   * Run the message through OpenClaw, forwarding reply blocks and partial
+   * replies as incremental text updates while the agent generates them
+   */
+  async *stream(a2aMessage: Message, context?: TaskContext): AsyncGenerator<TaskHandlerUpdate> {
     const textContent = this.extractTextFromMessage(a2aMessage);
     
     if (!textContent) {
-      return {
+      yield {
+        type: 'result',
         response: {
           role: 'agent',
           parts: [{ type: 'text', text: 'Cannot process empty message' }]
         }
       };
+      return;
     }
 
     // If no OpenClaw runtime, return a mock response for testing
     if (!this.runtime) {
-      return {
+      yield {
+        type: 'result',
         response: {
           role: 'agent',
           parts: [{ type: 'text', text: `Received: ${textContent}` }]
         }
       };
+      return;
     }
 
-    const ctx = this.createMsgContext(a2aMessage, textContent);
-    
+    const ctx = this.createMsgContext(a2aMessage, textContent, context?.sessionId);
+    const channel = new UpdateChannel<TaskHandlerUpdate>();
+    let streamed = '';
+    let partialSeen = false;
+    const finals: string[] = [];
+
+    // Partial replies carry the whole text so far: forward only what is new
+    const onPartialReply = (payload: ReplyPayload) => {
+      const text = payload.text ?? '';
+      partialSeen = true;
+      if (text.length > streamed.length && text.startsWith(streamed)) {
+        channel.push({ type: 'text', text: text.slice(streamed.length) });
+        streamed = text;
+      }
+    };
+
+    // Blocks are complete chunks: forwarded unless partial replies already cover them
+    const deliver = (payload: ReplyPayload, info: { kind: 'tool' | 'block' | 'final' }) => {
+      const text = payload.text ?? '';
+      if (!text) {
+        return;
+      }
+      if (info.kind === 'final') {
+        finals.push(text);
+      } else if (info.kind === 'block' && !partialSeen) {
+        const chunk = streamed ? `\n\n${text}` : text;
+        streamed += chunk;
+        channel.push({ type: 'text', text: chunk });
+      }
+    };
+
     try {
       const cfg = this.runtime.config.loadConfig();
-      const result = await this.runtime.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
+      const dispatch = this.runtime.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
         ctx,
         cfg,
         dispatcherOptions: {
           provider: 'a2a',
           to: 'a2a-agent',
           enrichedContext: ctx,
+          deliver,
+        },
+        replyOptions: {
+          onPartialReply,
+          ...(context ? { abortSignal: context.signal } : {})
         }
       });
+      dispatch.then(() => channel.end(), error => channel.end(error ?? new Error('Unknown error')));
+
+      yield* channel;
 
-      const agentResponse = this.extractResponseFromResult(result);
+      const result = await dispatch;
+      const queued = this.extractResponseFromResult(result);
+      const agentResponse = finals.length > 0
+        ? finals.join('\n')
+        : queued ?? (streamed || 'No response generated');
 
-      return {
+      yield {
+        type: 'result',
         response: {
           role: 'agent',
           parts: [{ type: 'text', text: agentResponse }]
@@ -125,7 +250,8 @@ export class OpenClawTaskHandler {
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      return {
+      yield {
+        type: 'result',
         response: {
           role: 'agent',
           parts: [{ type: 'text', text: `Error processing request: ${errorMessage}` }]
@@ -145,8 +271,13 @@ export class OpenClawTaskHandler {
     return textParts.join('\n');
   }
 
-  private createMsgContext(a2aMessage: Message, textContent: string): MsgContext {
-    const sessionKey = `a2a-${a2aMessage.metadata?.sessionId || crypto.randomUUID()}`;
+  private createMsgContext(a2aMessage: Message, textContent: string, sessionId?: string): MsgContext {
+    // Stable per A2A session so OpenClaw keeps the conversation across turns
+    const a2aSessionKey = `a2a-${sessionId || a2aMessage.metadata?.sessionId || crypto.randomUUID()}`;
+    // Agent-scoped session keys route the message to that OpenClaw agent
+    const sessionKey = this.config.openclawAgentId
+      ? `agent:${this.config.openclawAgentId}:${a2aSessionKey}`
+      : a2aSessionKey;
     
     return {
       Body: textContent,
@@ -164,16 +295,32 @@ export class OpenClawTaskHandler {
     };
   }
 
-  private extractResponseFromResult(result: { queuedFinal?: Array<{ text: string }> }): string {
+  private extractResponseFromResult(result: { queuedFinal?: Array<{ text: string }> }): string | undefined {
     if (result.queuedFinal && result.queuedFinal.length > 0) {
       return result.queuedFinal.map(msg => msg.text).join('\n');
     }
-    return 'No response generated';
+    return undefined;
   }
 }
 
 let a2aHandler: OpenClawTaskHandler | null = null;
 
+/**
+ * Make OpenClaw the default handler of a task manager, and the handler of the
+ * configured skills unless another plugin registered a dedicated one
+ */
+export function attachOpenClawHandler(manager: TaskManager, config: A2AConfig, runtime?: PluginRuntime): OpenClawTaskHandler {
+  const handler = new OpenClawTaskHandler(config, runtime);
+  manager.setHandler((message, context) => handler.stream(message, context));
+
+  for (const skill of config.skills) {
+    if (!manager.hasHandler(skill.id)) {
+      manager.registerHandler(skill.id, (message, context) => handler.stream(message, context));
+    }
+  }
+  return handler;
+}
+
 export function initializeA2AExtension(api?: OpenClawPluginApi): void {
   // Standalone mode - no OpenClaw runtime
   if (!api) {
@@ -186,8 +333,7 @@ export function initializeA2AExtension(api?: OpenClawPluginApi): void {
       skills: [],
     };
     
-    a2aHandler = new OpenClawTaskHandler(config);
-    taskManager.setHandler((message) => a2aHandler!.handle(message));
+    a2aHandler = attachOpenClawHandler(taskManager, config);
     return;
   }
 
@@ -210,9 +356,11 @@ export function initializeA2AExtension(api?: OpenClawPluginApi): void {
   if (pluginConfig.authToken) {
     config.authToken = pluginConfig.authToken;
   }
+  if (pluginConfig.openclawAgentId) {
+    config.openclawAgentId = pluginConfig.openclawAgentId;
+  }
 
-  a2aHandler = new OpenClawTaskHandler(config, api.runtime);
-  taskManager.setHandler((message) => a2aHandler!.handle(message));
+  a2aHandler = attachOpenClawHandler(taskManager, config, api.runtime);
 
   api.logger.info(`A2A Protocol extension initialized: ${config.agentName}`);
 }
@@ -0,0 +1,256 @@
+/**
+ * JWT Verification
+ *
+ * Vérification des JWT présentés en Bearer par les agents appelants :
+ * - HS256 (secret partagé), RS256 et ES256 (clé PEM ou fichier JWKS local)
+ * - Contrôle de exp / nbf / aud / iss
+ * - Claims convertis en identité et scopes de l'appelant
+ */
+
+import { createHmac, createPublicKey, timingSafeEqual, verify, type JsonWebKey, type KeyObject } from 'crypto';
+import * as fs from 'fs';
+import type { AuthScope, CallerIdentity } from './auth.js';
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+export interface JwtConfig {
+  /** Shared secret for HS256 tokens */
+  secret?: string;
+  /** PEM public key for RS256 / ES256 tokens */
+  publicKey?: string;
+  /** Local JWKS file ({ "keys": [...] }) for RS256 / ES256 tokens */
+  jwksPath?: string;
+  /** Accepted algorithms (default: every algorithm with a configured key) */
+  algorithms?: JwtAlgorithm[];
+  /** Required issuer - one of the values if several */
+  issuer?: string | string[];
+  /** Required audience - the token must contain one of the values */
+  audience?: string | string[];
+  /** Accepted clock skew in seconds (default: 30) */
+  clockToleranceSec?: number;
+  /** Claim holding the caller name (default: sub) */
+  nameClaim?: string;
+  /** Claim holding the scopes, space-separated string or array (default: scope, then scp) */
+  scopesClaim?: string;
+  /** Scopes of tokens without a scopes claim (default: send, read, cancel) */
+  defaultScopes?: AuthScope[];
+  /** Token endpoint issuing the JWTs, advertised as OAuth2 in the AgentCard */
+  tokenUrl?: string;
+}
+
+/**
+ * Thrown when a token is malformed, badly signed or its claims are rejected
+ */
+export class JwtVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwtVerificationError';
+  }
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+}
+
+type JwtClaims = Record<string, unknown>;
+
+interface VerificationKey {
+  kid?: string;
+  key: KeyObject;
+}
+
+const KNOWN_SCOPES: readonly AuthScope[] = ['send', 'read', 'cancel', 'admin'];
+const DEFAULT_SCOPES: AuthScope[] = ['send', 'read', 'cancel'];
+
+function decodeSegment<T>(segment: string, name: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    throw new JwtVerificationError(`Malformed token ${name}`);
+  }
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Compact JWS shape: three base64url segments
+ */
+export function looksLikeJwt(token: string): boolean {
+  return /^[\w-]+\.[\w-]+\.[\w-]*$/.test(token);
+}
+
+export class JwtVerifier {
+  private secret: Buffer | undefined;
+  private pemKey: KeyObject | undefined;
+  private jwks: VerificationKey[] = [];
+  private jwksMtimeMs = 0;
+  private algorithms: JwtAlgorithm[];
+
+  constructor(private config: JwtConfig) {
+    if (config.secret) {
+      this.secret = Buffer.from(config.secret, 'utf8');
+    }
+    if (config.publicKey) {
+      this.pemKey = createPublicKey(config.publicKey);
+    }
+    if (config.jwksPath) {
+      this.loadJwks();
+    }
+
+    const hasPublicKeys = this.pemKey !== undefined || config.jwksPath !== undefined;
+    this.algorithms = config.algorithms ?? [
+      ...(this.secret ? ['HS256' as const] : []),
+      ...(hasPublicKeys ? ['RS256' as const, 'ES256' as const] : [])
+    ];
+  }
+
+  get tokenUrl(): string | undefined {
+    return this.config.tokenUrl;
+  }
+
+  /**
+   * Verify the signature and claims of a token, and resolve the caller
+   */
+  verify(token: string, now: number = Date.now()): CallerIdentity {
+    const [headerSegment, payloadSegment, signatureSegment] = token.split('.');
+    if (!headerSegment || !payloadSegment || signatureSegment === undefined) {
+      throw new JwtVerificationError('Malformed token');
+    }
+
+    const header = decodeSegment<JwtHeader>(headerSegment, 'header');
+    const alg = header.alg as JwtAlgorithm;
+    if (!this.algorithms.includes(alg)) {
+      throw new JwtVerificationError(`Unsupported algorithm: ${header.alg}`);
+    }
+
+    const data = Buffer.from(`${headerSegment}.${payloadSegment}`);
+    const signature = Buffer.from(signatureSegment, 'base64url');
+    if (!this.verifySignature(alg, header.kid, data, signature)) {
+      throw new JwtVerificationError('Invalid signature');
+    }
+
+    const claims = decodeSegment<JwtClaims>(payloadSegment, 'payload');
+    this.checkClaims(claims, now);
+    return this.toCaller(claims);
+  }
+
+  private verifySignature(alg: JwtAlgorithm, kid: string | undefined, data: Buffer, signature: Buffer): boolean {
+    if (alg === 'HS256') {
+      if (!this.secret) {
+        return false;
+      }
+      const expected = createHmac('sha256', this.secret).update(data).digest();
+      return expected.length === signature.length && timingSafeEqual(expected, signature);
+    }
+
+    // The key type must match the algorithm - no RSA key used as an EC key
+    const keyType = alg === 'RS256' ? 'rsa' : 'ec';
+    const candidates = this.getKeys(kid).filter(key => key.asymmetricKeyType === keyType);
+
+    return candidates.some(key => {
+      try {
+        return alg === 'RS256'
+          ? verify('sha256', data, key, signature)
+          : verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Keys matching kid - reloads the JWKS file once if it changed (key rotation)
+   */
+  private getKeys(kid: string | undefined): KeyObject[] {
+    const select = () => this.jwks
+      .filter(entry => kid === undefined || entry.kid === undefined || entry.kid === kid)
+      .map(entry => entry.key);
+
+    let keys = select();
+    if (keys.length === 0 && this.config.jwksPath && this.jwksChanged()) {
+      this.loadJwks();
+      keys = select();
+    }
+    return this.pemKey ? [...keys, this.pemKey] : keys;
+  }
+
+  private jwksChanged(): boolean {
+    try {
+      return fs.statSync(this.config.jwksPath!).mtimeMs !== this.jwksMtimeMs;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * An unreadable file leaves no key: tokens are rejected until it is fixed
+   */
+  private loadJwks(): void {
+    const jwksPath = this.config.jwksPath!;
+    let keys: Array<JsonWebKey & { kid?: string }> | undefined;
+    try {
+      this.jwksMtimeMs = fs.statSync(jwksPath).mtimeMs;
+      keys = (JSON.parse(fs.readFileSync(jwksPath, 'utf8')) as { keys?: typeof keys }).keys;
+    } catch {
+      keys = [];
+    }
+    this.jwks = (keys ?? []).flatMap(jwk => {
+      try {
+        const key = createPublicKey({ key: jwk, format: 'jwk' });
+        return [{ ...(jwk.kid !== undefined ? { kid: jwk.kid } : {}), key }];
+      } catch {
+        // Unsupported key types are ignored
+        return [];
+      }
+    });
+  }
+
+  private checkClaims(claims: JwtClaims, now: number): void {
+    const tolerance = this.config.clockToleranceSec ?? 30;
+    const nowSec = Math.floor(now / 1000);
+
+    // Short-lived tokens only: exp is required
+    if (typeof claims.exp !== 'number') {
+      throw new JwtVerificationError('Token has no expiration');
+    }
+    if (nowSec > claims.exp + tolerance) {
+      throw new JwtVerificationError('Token expired');
+    }
+    if (typeof claims.nbf === 'number' && nowSec < claims.nbf - tolerance) {
+      throw new JwtVerificationError('Token not yet valid');
+    }
+
+    const issuers = toList(this.config.issuer);
+    if (issuers.length > 0 && (typeof claims.iss !== 'string' || !issuers.includes(claims.iss))) {
+      throw new JwtVerificationError('Unexpected issuer');
+    }
+
+    const audiences = toList(this.config.audience);
+    if (audiences.length > 0) {
+      const tokenAudiences = typeof claims.aud === 'string' ? [claims.aud] : Array.isArray(claims.aud) ? claims.aud : [];
+      if (!tokenAudiences.some(aud => audiences.includes(aud))) {
+        throw new JwtVerificationError('Unexpected audience');
+      }
+    }
+  }
+
+  private toCaller(claims: JwtClaims): CallerIdentity {
+    const name = claims[this.config.nameClaim ?? 'sub'];
+    if (typeof name !== 'string' || !name) {
+      throw new JwtVerificationError('Token has no caller name');
+    }
+
+    const raw = this.config.scopesClaim
+      ? claims[this.config.scopesClaim]
+      : claims.scope ?? claims.scp;
+    const requested = typeof raw === 'string' ? raw.split(' ') : Array.isArray(raw) ? raw : undefined;
+    const scopes = requested
+      ? KNOWN_SCOPES.filter(scope => requested.includes(scope))
+      : this.config.defaultScopes ?? DEFAULT_SCOPES;
+
+    return { name, scopes };
+  }
+}
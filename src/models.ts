@@ -16,13 +16,16 @@ export const TextPartSchema = z.object({
   text: z.string()
 });
 
+// Canonical base64: padded, no whitespace, no URL-safe alphabet
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
 export const FilePartSchema = z.object({
   type: z.literal('file'),
   file: z.union([
     z.object({
       name: z.string(),
       mimeType: z.string(),
-      bytes: z.string()
+      bytes: z.string().regex(BASE64_PATTERN, 'Invalid base64 data')
     }),
     z.object({
       name: z.string(),
@@ -49,6 +52,8 @@ export const PartSchema = z.discriminatedUnion('type', [
 
 export const MessageSchema = z.object({
   role: z.enum(['user', 'agent']),
+  // Set by callers of the current protocol revision (see protocol-adapter.ts)
+  messageId: z.string().optional(),
   parts: z.array(PartSchema),
   metadata: z.record(z.string(), z.unknown()).optional()
 });
@@ -60,6 +65,7 @@ export const MessageSchema = z.object({
 export const TaskStateSchema = z.enum([
   'submitted',
   'working',
+  'input-required',
   'completed',
   'failed',
   'canceled'
@@ -71,14 +77,26 @@ export const TaskStatusSchema = z.object({
   message: z.string().optional()
 });
 
+export const TaskStateTransitionSchema = z.object({
+  from: TaskStateSchema.optional(), // Absent for the initial submitted entry
+  to: TaskStateSchema,
+  timestamp: z.string().datetime(),
+  message: z.string().optional()
+});
+
 // ============================================================================
 // ARTIFACT
 // ============================================================================
 
 export const ArtifactSchema = z.object({
+  name: z.string().optional(),
+  description: z.string().optional(),
   parts: z.array(PartSchema),
   metadata: z.record(z.string(), z.unknown()).optional(),
-  index: z.number().int().optional()
+  index: z.number().int().optional(),
+  // Streaming: append to the artifact with the same index, lastChunk ends it
+  append: z.boolean().optional(),
+  lastChunk: z.boolean().optional()
 });
 
 // ============================================================================
@@ -91,6 +109,7 @@ export const TaskSchema = z.object({
   status: TaskStatusSchema,
   artifacts: z.array(ArtifactSchema).default([]),
   history: z.array(MessageSchema).optional(),
+  stateTransitions: z.array(TaskStateTransitionSchema).optional(),
   metadata: z.record(z.string(), z.unknown()).optional()
 });
 
@@ -119,16 +138,36 @@ export const AgentAuthenticationSchema = z.object({
   credentials: z.string().optional()
 });
 
+export const AgentProviderSchema = z.object({
+  organization: z.string(),
+  url: z.string().url().optional()
+});
+
+/**
+ * Detached JWS over the canonical card without its signatures
+ */
+export const AgentCardSignatureSchema = z.object({
+  protected: z.string(),
+  signature: z.string(),
+  header: z.record(z.string(), z.unknown()).optional()
+});
+
 export const AgentCardSchema = z.object({
   name: z.string(),
   description: z.string(),
   url: z.string().url(),
+  provider: AgentProviderSchema.optional(),
   version: z.string(),
+  documentationUrl: z.string().url().optional(),
+  iconUrl: z.string().url().optional(),
   capabilities: AgentCapabilitiesSchema,
   authentication: AgentAuthenticationSchema.optional(),
+  supportsAuthenticatedExtendedCard: z.boolean().optional(),
+  protocolVersion: z.string().optional(),
   defaultInputModes: z.array(z.string()).default(['text']),
   defaultOutputModes: z.array(z.string()).default(['text']),
-  skills: z.array(SkillSchema)
+  skills: z.array(SkillSchema),
+  signatures: z.array(AgentCardSignatureSchema).optional()
 });
 
 // ============================================================================
@@ -137,11 +176,14 @@ export const AgentCardSchema = z.object({
 
 export const JSONRPCVersionSchema = z.literal('2.0');
 
+export const JSONRPCIdSchema = z.union([z.string(), z.number(), z.null()]);
+
 export const JSONRPCRequestSchema = z.object({
   jsonrpc: JSONRPCVersionSchema,
   method: z.string(),
   params: z.unknown(),
-  id: z.union([z.string(), z.number()])
+  // Absent for notifications, which get no response
+  id: JSONRPCIdSchema.optional()
 });
 
 export const JSONRPCResponseSchema = z.object({
@@ -152,7 +194,7 @@ export const JSONRPCResponseSchema = z.object({
     message: z.string(),
     data: z.unknown().optional()
   }).optional(),
-  id: z.union([z.string(), z.number()]).optional()
+  id: JSONRPCIdSchema.optional()
 }).refine(
   (data) => data.result !== undefined || data.error !== undefined,
   {
@@ -164,15 +206,35 @@ export const JSONRPCResponseSchema = z.object({
 // A2A METHODS PARAMS
 // ============================================================================
 
+export const PushNotificationAuthenticationSchema = z.object({
+  schemes: z.array(z.string()),
+  credentials: z.string().optional()
+});
+
+export const PushNotificationConfigSchema = z.object({
+  url: z.string().url().refine(
+    (url) => url.startsWith('http://') || url.startsWith('https://'),
+    { message: 'Push notification URL must use http or https' }
+  ),
+  // Echoed in the X-A2A-Notification-Token header
+  token: z.string().optional(),
+  // Shared secret used to sign the payload (HMAC-SHA256)
+  secret: z.string().min(16).optional(),
+  authentication: PushNotificationAuthenticationSchema.optional()
+});
+
 export const TaskSendParamsSchema = z.object({
   id: z.string(),
   sessionId: z.string().optional(),
   acceptedOutputModes: z.array(z.string()).optional(),
-  message: MessageSchema
+  message: MessageSchema,
+  pushNotification: PushNotificationConfigSchema.optional(),
+  metadata: z.record(z.string(), z.unknown()).optional()
 });
 
 export const TaskGetParamsSchema = z.object({
-  id: z.string()
+  id: z.string(),
+  includeStateTransitions: z.boolean().optional()
 });
 
 export const TaskCancelParamsSchema = z.object({
@@ -183,7 +245,23 @@ export const TaskSendSubscribeParamsSchema = z.object({
   id: z.string(),
   sessionId: z.string().optional(),
   acceptedOutputModes: z.array(z.string()).optional(),
-  message: MessageSchema
+  message: MessageSchema,
+  metadata: z.record(z.string(), z.unknown()).optional()
+});
+
+export const TaskResubscribeParamsSchema = z.object({
+  id: z.string(),
+  // Replay events after this sequence number (same as the Last-Event-ID header)
+  lastEventId: z.coerce.number().int().nonnegative().optional()
+});
+
+export const TaskPushNotificationConfigSchema = z.object({
+  id: z.string(),
+  pushNotificationConfig: PushNotificationConfigSchema
+});
+
+export const TaskPushNotificationGetParamsSchema = z.object({
+  id: z.string()
 });
 
 export const TaskListParamsSchema = z.object({
@@ -192,6 +270,11 @@ export const TaskListParamsSchema = z.object({
   state: TaskStateSchema.optional()
 });
 
+export const UsageParamsSchema = z.object({
+  // Usage of one caller (name, or ip:<address> without authentication)
+  caller: z.string().optional()
+});
+
 // ============================================================================
 // TASK EVENTS (for SSE streaming)
 // ============================================================================
@@ -200,7 +283,9 @@ export const TaskEventSchema = z.object({
   type: z.enum(['status', 'artifact', 'message']),
   task: TaskSchema,
   artifact: ArtifactSchema.optional(),
-  message: MessageSchema.optional()
+  message: MessageSchema.optional(),
+  // Per-task sequence number, used as the SSE event id
+  seq: z.number().int().positive()
 });
 
 // ============================================================================
@@ -214,11 +299,14 @@ export type Part = z.infer<typeof PartSchema>;
 export type Message = z.infer<typeof MessageSchema>;
 export type TaskState = z.infer<typeof TaskStateSchema>;
 export type TaskStatus = z.infer<typeof TaskStatusSchema>;
+export type TaskStateTransition = z.infer<typeof TaskStateTransitionSchema>;
 export type Artifact = z.infer<typeof ArtifactSchema>;
 export type Task = z.infer<typeof TaskSchema>;
 export type Skill = z.infer<typeof SkillSchema>;
+export type AgentProvider = z.infer<typeof AgentProviderSchema>;
 export type AgentCapabilities = z.infer<typeof AgentCapabilitiesSchema>;
 export type AgentAuthentication = z.infer<typeof AgentAuthenticationSchema>;
+export type AgentCardSignature = z.infer<typeof AgentCardSignatureSchema>;
 export type AgentCard = z.infer<typeof AgentCardSchema>;
 export type JSONRPCRequest = z.infer<typeof JSONRPCRequestSchema>;
 export type JSONRPCResponse = z.infer<typeof JSONRPCResponseSchema>;
@@ -226,5 +314,10 @@ export type TaskSendParams = z.infer<typeof TaskSendParamsSchema>;
 export type TaskGetParams = z.infer<typeof TaskGetParamsSchema>;
 export type TaskCancelParams = z.infer<typeof TaskCancelParamsSchema>;
 export type TaskSendSubscribeParams = z.infer<typeof TaskSendSubscribeParamsSchema>;
+export type TaskResubscribeParams = z.infer<typeof TaskResubscribeParamsSchema>;
+export type PushNotificationConfig = z.infer<typeof PushNotificationConfigSchema>;
+export type TaskPushNotificationConfig = z.infer<typeof TaskPushNotificationConfigSchema>;
+export type TaskPushNotificationGetParams = z.infer<typeof TaskPushNotificationGetParamsSchema>;
 export type TaskListParams = z.infer<typeof TaskListParamsSchema>;
+export type UsageParams = z.infer<typeof UsageParamsSchema>;
 export type TaskEvent = z.infer<typeof TaskEventSchema>;
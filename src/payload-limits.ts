@@ -0,0 +1,116 @@
+/**
+ * Payload Limits
+ *
+ * Garde-fous sur les requêtes entrantes :
+ * - Taille du corps HTTP, lue au fil de l'eau et rejetée dès le dépassement
+ * - Nombre de parts par message, longueur des textes
+ * - Taille décodée des fichiers inline et types MIME autorisés
+ */
+
+import type { Message } from './models.js';
+
+export interface PayloadLimits {
+  /** Maximum size of a request body in bytes (default: 10 MiB) */
+  maxBodyBytes?: number;
+  /** Maximum number of parts in a message (default: 20) */
+  maxParts?: number;
+  /** Maximum length of a text part in characters (default: 100000) */
+  maxTextLength?: number;
+  /** Maximum decoded size of an inline file in bytes (default: 5 MiB) */
+  maxFileBytes?: number;
+  /** Accepted MIME types of file parts, `type/*` wildcards allowed (default: any) */
+  allowedMimeTypes?: string[];
+}
+
+export const DEFAULT_PAYLOAD_LIMITS: Required<Omit<PayloadLimits, 'allowedMimeTypes'>> = {
+  maxBodyBytes: 10 * 1024 * 1024,
+  maxParts: 20,
+  maxTextLength: 100000,
+  maxFileBytes: 5 * 1024 * 1024
+};
+
+/**
+ * Thrown by readBody when the body exceeds maxBodyBytes
+ */
+export class PayloadTooLargeError extends Error {
+  constructor(public readonly maxBodyBytes: number) {
+    super(`Request body exceeds ${maxBodyBytes} bytes`);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+interface BodySource extends AsyncIterable<Buffer | string> {
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Read a request body up to maxBodyBytes. A declared Content-Length above the
+ * limit is rejected before reading; otherwise reading stops at the first chunk
+ * over the limit, and the rest of the body is left to the HTTP server.
+ */
+export async function readBody(req: BodySource, maxBodyBytes: number): Promise<string> {
+  const declared = Number(req.headers['content-length']);
+  if (Number.isFinite(declared) && declared > maxBodyBytes) {
+    throw new PayloadTooLargeError(maxBodyBytes);
+  }
+
+  // Not a for-await loop: leaving it would destroy the request, and with it
+  // the socket the 413 response is written to
+  const iterator = req[Symbol.asyncIterator]();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+    const chunk = typeof next.value === 'string' ? Buffer.from(next.value) : next.value;
+    size += chunk.length;
+    if (size > maxBodyBytes) {
+      throw new PayloadTooLargeError(maxBodyBytes);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Decoded size of base64 data, without decoding it
+ */
+export function base64DecodedSize(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor(data.length * 3 / 4) - padding;
+}
+
+function isMimeTypeAllowed(mimeType: string, allowed: string[]): boolean {
+  const type = mimeType.split(';')[0]!.trim().toLowerCase();
+  return allowed.some(pattern => {
+    const normalized = pattern.toLowerCase();
+    return normalized.endsWith('/*')
+      ? type.startsWith(normalized.slice(0, -1))
+      : type === normalized;
+  });
+}
+
+/**
+ * First limit the message exceeds, or undefined when it is acceptable
+ */
+export function checkMessageLimits(message: Message, limits: PayloadLimits = {}): string | undefined {
+  const { maxParts, maxTextLength, maxFileBytes } = { ...DEFAULT_PAYLOAD_LIMITS, ...limits };
+
+  if (message.parts.length > maxParts) {
+    return `Too many parts: ${message.parts.length} (max ${maxParts})`;
+  }
+
+  for (const [index, part] of message.parts.entries()) {
+    if (part.type === 'text' && part.text.length > maxTextLength) {
+      return `Part ${index}: text exceeds ${maxTextLength} characters`;
+    }
+    if (part.type === 'file') {
+      if (limits.allowedMimeTypes && !isMimeTypeAllowed(part.file.mimeType, limits.allowedMimeTypes)) {
+        return `Part ${index}: file type ${part.file.mimeType} is not allowed`;
+      }
+      if ('bytes' in part.file && base64DecodedSize(part.file.bytes) > maxFileBytes) {
+        return `Part ${index}: file exceeds ${maxFileBytes} bytes`;
+      }
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,277 @@
+/**
+ * Protocol Adapter
+ *
+ * Compatibilité avec les révisions récentes de la spécification A2A :
+ * - Méthodes message/send, message/stream, tasks/pushNotificationConfig/*
+ * - Parts discriminées par `kind`, messageId, contextId (= sessionId)
+ * - Normalisation vers les modèles internes, réponse dans le dialecte de l'appelant
+ */
+
+import type { Artifact, Message, Part, Task, TaskEvent, TaskState } from './models.js';
+
+/** Revision spoken by the current dialect, advertised in the AgentCard */
+export const PROTOCOL_VERSION = '0.2.5';
+
+/**
+ * legacy: tasks/send, `type` parts, sessionId - current: message/send, `kind` parts, contextId
+ */
+export type ProtocolDialect = 'legacy' | 'current';
+
+// Current methods and their internal equivalent
+const CURRENT_METHODS: Record<string, string> = {
+  'message/send': 'tasks/send',
+  'message/stream': 'tasks/sendSubscribe',
+  'tasks/pushNotificationConfig/set': 'tasks/pushNotification/set',
+  'tasks/pushNotificationConfig/get': 'tasks/pushNotification/get'
+};
+
+// Legacy-only methods - the others (tasks/get, tasks/cancel, tasks/resubscribe)
+// exist in both dialects and are answered in the dialect of the task
+const LEGACY_METHODS = new Set([
+  'tasks/send',
+  'tasks/sendSubscribe',
+  'tasks/pushNotification/set',
+  'tasks/pushNotification/get',
+  'tasks/list'
+]);
+
+// Task metadata key recording the dialect a task was created in
+const PROTOCOL_METADATA_KEY = 'protocolVersion';
+
+export interface NormalizedRequest {
+  /** Request in the internal (legacy) shape */
+  request: unknown;
+  /** Undefined for methods of both dialects */
+  dialect?: ProtocolDialect;
+  /** History entries to return (current dialect) */
+  historyLength?: number;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============================================================================
+// CALLER -> INTERNAL
+// ============================================================================
+
+/**
+ * `kind` parts become `type` parts; current file parts may omit name and type
+ */
+export function toInternalPart(part: unknown): unknown {
+  if (!isObject(part) || part.type !== undefined || typeof part.kind !== 'string') {
+    return part;
+  }
+
+  const { kind, ...rest } = part;
+  if (kind === 'file' && isObject(rest.file)) {
+    return {
+      ...rest,
+      type: 'file',
+      file: { name: 'file', mimeType: 'application/octet-stream', ...rest.file }
+    };
+  }
+  return { ...rest, type: kind };
+}
+
+function toInternalMessage(message: unknown): unknown {
+  if (!isObject(message)) {
+    return message;
+  }
+  const { kind: _kind, taskId: _taskId, contextId: _contextId, ...rest } = message;
+  return Array.isArray(rest.parts) ? { ...rest, parts: rest.parts.map(toInternalPart) } : rest;
+}
+
+/**
+ * Internal method and params of a request, in either dialect
+ */
+export function normalizeRequest(request: unknown): NormalizedRequest {
+  if (!isObject(request) || typeof request.method !== 'string') {
+    return { request };
+  }
+
+  const method = request.method;
+  const params = isObject(request.params) ? request.params : undefined;
+  const internalMethod = CURRENT_METHODS[method];
+
+  if (!internalMethod) {
+    // `kind` parts are accepted in legacy requests too
+    const normalized = params && isObject(params.message)
+      ? { ...request, params: { ...params, message: toInternalMessage(params.message) } }
+      : request;
+    const historyLength = typeof params?.historyLength === 'number' ? params.historyLength : undefined;
+    return {
+      request: normalized,
+      ...(LEGACY_METHODS.has(method) ? { dialect: 'legacy' as const } : {}),
+      ...(historyLength !== undefined ? { historyLength } : {})
+    };
+  }
+
+  if (!params) {
+    return { request: { ...request, method: internalMethod }, dialect: 'current' };
+  }
+
+  let internalParams: JsonObject = params;
+  let historyLength: number | undefined;
+
+  if (method === 'message/send' || method === 'message/stream') {
+    const message = isObject(params.message) ? params.message : {};
+    const configuration = isObject(params.configuration) ? params.configuration : {};
+    historyLength = typeof configuration.historyLength === 'number' ? configuration.historyLength : undefined;
+
+    // A message naming a task continues it; otherwise the server picks the id
+    internalParams = {
+      id: typeof message.taskId === 'string' ? message.taskId : crypto.randomUUID(),
+      ...(typeof message.contextId === 'string' ? { sessionId: message.contextId } : {}),
+      message: toInternalMessage(params.message),
+      ...(Array.isArray(configuration.acceptedOutputModes)
+        ? { acceptedOutputModes: configuration.acceptedOutputModes }
+        : {}),
+      ...(method === 'message/send' && configuration.pushNotificationConfig !== undefined
+        ? { pushNotification: configuration.pushNotificationConfig }
+        : {}),
+      metadata: { ...(isObject(params.metadata) ? params.metadata : {}), [PROTOCOL_METADATA_KEY]: PROTOCOL_VERSION }
+    };
+  } else if (method === 'tasks/pushNotificationConfig/set') {
+    const { taskId, ...rest } = params;
+    internalParams = { ...rest, id: taskId };
+  }
+
+  return {
+    request: { ...request, method: internalMethod, params: internalParams },
+    dialect: 'current',
+    ...(historyLength !== undefined ? { historyLength } : {})
+  };
+}
+
+/**
+ * Dialect a task was created in
+ */
+export function taskDialect(task: Task): ProtocolDialect {
+  return task.metadata?.[PROTOCOL_METADATA_KEY] === PROTOCOL_VERSION ? 'current' : 'legacy';
+}
+
+// ============================================================================
+// INTERNAL -> CURRENT
+// ============================================================================
+
+export function toCurrentPart(part: Part): JsonObject {
+  const { type, ...rest } = part;
+  return { kind: type, ...rest };
+}
+
+export function toCurrentMessage(message: Message, task: Task, fallbackId: string): JsonObject {
+  return {
+    kind: 'message',
+    role: message.role,
+    parts: message.parts.map(toCurrentPart),
+    messageId: message.messageId ?? fallbackId,
+    taskId: task.id,
+    contextId: task.sessionId,
+    ...(message.metadata ? { metadata: message.metadata } : {})
+  };
+}
+
+function toCurrentArtifact(artifact: Artifact, task: Task, position: number): JsonObject {
+  const { index, append: _append, lastChunk: _lastChunk, parts, ...rest } = artifact;
+  return {
+    ...rest,
+    artifactId: `${task.id}-artifact-${index ?? position}`,
+    parts: parts.map(toCurrentPart)
+  };
+}
+
+/**
+ * Status message as an agent message instead of a string
+ */
+function toCurrentStatus(task: Task): JsonObject {
+  const { message, ...status } = task.status;
+  return {
+    ...status,
+    ...(message !== undefined
+      ? { message: toCurrentMessage({ role: 'agent', parts: [{ type: 'text', text: message }] }, task, `${task.id}-status`) }
+      : {})
+  };
+}
+
+export function toCurrentTask(task: Task, historyLength?: number): JsonObject {
+  const { sessionId, status, artifacts, history, ...rest } = task;
+  const entries = (history ?? []).map((message, index) => toCurrentMessage(message, task, `${task.id}-${index}`));
+  return {
+    kind: 'task',
+    ...rest,
+    contextId: sessionId,
+    status: toCurrentStatus(task),
+    artifacts: artifacts.map((artifact, position) => toCurrentArtifact(artifact, task, position)),
+    history: historyLength !== undefined ? entries.slice(entries.length - historyLength) : entries
+  };
+}
+
+function isFinal(state: TaskState): boolean {
+  return state === 'completed' || state === 'failed' || state === 'canceled' || state === 'input-required';
+}
+
+/**
+ * Stream event of the current dialect: the task when it is submitted, then
+ * status updates, artifact updates and messages
+ */
+export function toCurrentEvent(event: TaskEvent): JsonObject {
+  const { task } = event;
+
+  if (event.type === 'artifact' && event.artifact) {
+    return {
+      kind: 'artifact-update',
+      taskId: task.id,
+      contextId: task.sessionId,
+      // The task manager gives every emitted artifact its index
+      artifact: toCurrentArtifact(event.artifact, task, event.artifact.index ?? task.artifacts.indexOf(event.artifact)),
+      ...(event.artifact.append !== undefined ? { append: event.artifact.append } : {}),
+      ...(event.artifact.lastChunk !== undefined ? { lastChunk: event.artifact.lastChunk } : {})
+    };
+  }
+
+  if (event.type === 'message' && event.message) {
+    return toCurrentMessage(event.message, task, `${task.id}-event-${event.seq}`);
+  }
+
+  if (task.status.state === 'submitted') {
+    return toCurrentTask(task);
+  }
+
+  return {
+    kind: 'status-update',
+    taskId: task.id,
+    contextId: task.sessionId,
+    status: toCurrentStatus(task),
+    final: isFinal(task.status.state)
+  };
+}
+
+/**
+ * Result of an internal method in the current dialect. tasks/cancel needs the
+ * canceled task; other results that are not tasks nor push configurations are
+ * returned as is.
+ */
+export function toCurrentResult(
+  method: string,
+  params: JsonObject,
+  result: unknown,
+  canceledTask?: Task,
+  historyLength?: number
+): unknown {
+  switch (method) {
+    case 'tasks/send':
+    case 'tasks/get':
+      return toCurrentTask(result as Task, historyLength);
+    case 'tasks/cancel':
+      return canceledTask ? toCurrentTask(canceledTask, historyLength) : result;
+    case 'tasks/pushNotification/set':
+      return { taskId: params.id, pushNotificationConfig: (result as JsonObject).pushNotificationConfig };
+    case 'tasks/pushNotification/get':
+      return result === null ? null : { taskId: params.id, pushNotificationConfig: (result as JsonObject).pushNotificationConfig };
+    default:
+      return result;
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * Push Notifications
+ *
+ * Livraison des événements de tâche par webhook :
+ * - Une souscription par tâche (tasks/pushNotification/set)
+ * - Retry avec backoff exponentiel
+ * - Token par souscription ou signature HMAC-SHA256
+ * - Dead-letter des livraisons abandonnées
+ * - Désactivé par défaut ; webhooks limités aux hôtes publics ou à une liste d'hôtes
+ */
+
+import { createHmac } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import type { PushNotificationConfig, TaskEvent } from './models.js';
+import { taskManager, isTerminalState, type TaskManager } from './task-manager.js';
+
+export interface PushNotificationOptions {
+  /** Accept tasks/pushNotification/set (advertised on the agent card) */
+  enabled?: boolean;
+  /** Only hosts webhooks may target - empty: any host outside private networks */
+  allowedHosts?: string[];
+  /** Delivery attempts before an event goes to the dead-letter list */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled on each attempt */
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  /** Timeout of a single webhook request */
+  requestTimeoutMs?: number;
+  /** Number of failed deliveries kept for inspection */
+  deadLetterSize?: number;
+}
+
+export interface DeadLetter {
+  taskId: string;
+  url: string;
+  event: TaskEvent;
+  attempts: number;
+  error: string;
+  failedAt: string;
+}
+
+interface PushLogger {
+  info: (message: string) => void;
+  error: (message: string) => void;
+}
+
+type FetchLike = (url: string, init: RequestInit) => Promise<{ ok: boolean; status: number }>;
+type LookupLike = (hostname: string) => Promise<string[]>;
+
+export const DEFAULT_PUSH_NOTIFICATIONS: Required<PushNotificationOptions> = {
+  enabled: false,
+  allowedHosts: [],
+  maxAttempts: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  requestTimeoutMs: 10 * 1000,
+  deadLetterSize: 100
+};
+
+/**
+ * Delivery failed in a way that retrying cannot fix (4xx answer)
+ */
+class PermanentDeliveryError extends Error {}
+
+// Loopback, link-local, private and reserved ranges - a webhook must not reach the gateway's own network
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+for (const [network, prefix] of [
+  ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address belongs to a loopback, link-local or private network
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  return version !== 0 && PRIVATE_NETWORKS.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Signature header value: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+ */
+export function signPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+export class PushNotificationService {
+  private options: Required<PushNotificationOptions>;
+  private subscriptions: Map<string, PushNotificationConfig> = new Map();
+  // Per-task delivery chain - events reach the webhook in order
+  private queues: Map<string, Promise<void>> = new Map();
+  private deadLetters: DeadLetter[] = [];
+  private timers: Map<ReturnType<typeof setTimeout>, () => void> = new Map();
+  private listening = false;
+
+  private onTaskEvent = (event: TaskEvent) => this.dispatch(event);
+
+  constructor(
+    private manager: TaskManager,
+    options: PushNotificationOptions = {},
+    private logger?: PushLogger,
+    private fetchImpl: FetchLike = (url, init) => fetch(url, init),
+    private lookupImpl: LookupLike = async hostname => (await lookup(hostname, { all: true })).map(entry => entry.address)
+  ) {
+    this.options = { ...DEFAULT_PUSH_NOTIFICATIONS, ...options };
+  }
+
+  configure(options: PushNotificationOptions, logger?: PushLogger): void {
+    this.options = { ...this.options, ...options };
+    if (logger) {
+      this.logger = logger;
+    }
+  }
+
+  get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  start(): void {
+    if (this.listening) {
+      return;
+    }
+    this.manager.on('task', this.onTaskEvent);
+    this.listening = true;
+  }
+
+  stop(): void {
+    this.manager.off('task', this.onTaskEvent);
+    this.listening = false;
+    // Pending retries give up and go to the dead-letter list
+    for (const [timer, resolve] of this.timers) {
+      clearTimeout(timer);
+      resolve();
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Why a webhook URL is refused, if it is: a host outside allowedHosts, or
+   * (without allowedHosts) a loopback, link-local or private address
+   */
+  checkUrl(url: string): string | undefined {
+    const hostname = webhookHostname(url);
+    if (this.options.allowedHosts.length > 0) {
+      return this.isAllowedHost(hostname) ? undefined : `host ${hostname} is not allowed`;
+    }
+    if (hostname === 'localhost' || hostname.endsWith('.localhost') || isPrivateAddress(hostname)) {
+      return `host ${hostname} is on a private network`;
+    }
+    return undefined;
+  }
+
+  setConfig(taskId: string, config: PushNotificationConfig): void {
+    this.subscriptions.set(taskId, config);
+  }
+
+  getConfig(taskId: string): PushNotificationConfig | undefined {
+    return this.subscriptions.get(taskId);
+  }
+
+  deleteConfig(taskId: string): void {
+    this.subscriptions.delete(taskId);
+  }
+
+  getDeadLetters(): DeadLetter[] {
+    return [...this.deadLetters];
+  }
+
+  /**
+   * Resolves once every queued delivery has succeeded or been dead-lettered
+   */
+  async flush(): Promise<void> {
+    while (this.queues.size > 0) {
+      await Promise.all(this.queues.values());
+    }
+  }
+
+  private dispatch(event: TaskEvent): void {
+    const taskId = event.task.id;
+    const config = this.subscriptions.get(taskId);
+    // Partial text chunks are only useful to live SSE clients
+    if (!config || (event.type === 'message' && event.message?.metadata?.partial === true)) {
+      return;
+    }
+
+    // Nothing follows a terminal event - the subscription is done
+    if (event.type === 'status' && isTerminalState(event.task.status.state)) {
+      this.subscriptions.delete(taskId);
+    }
+
+    const previous = this.queues.get(taskId) ?? Promise.resolve();
+    const next = previous.then(() => this.deliver(config, event));
+    this.queues.set(taskId, next);
+    next.then(() => {
+      if (this.queues.get(taskId) === next) {
+        this.queues.delete(taskId);
+      }
+    });
+  }
+
+  private async deliver(config: PushNotificationConfig, event: TaskEvent): Promise<void> {
+    const body = JSON.stringify(event);
+    let lastError = 'Unknown error';
+    let attempts = 0;
+
+    while (attempts < this.options.maxAttempts) {
+      attempts++;
+      try {
+        await this.send(config, body);
+        return;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+        if (error instanceof PermanentDeliveryError) {
+          break;
+        }
+      }
+
+      if (attempts < this.options.maxAttempts && this.listening) {
+        const delay = Math.min(this.options.initialDelayMs * 2 ** (attempts - 1), this.options.maxDelayMs);
+        await this.sleep(delay);
+      }
+      if (!this.listening) {
+        break;
+      }
+    }
+
+    this.deadLetters.push({
+      taskId: event.task.id,
+      url: config.url,
+      event,
+      attempts,
+      error: lastError,
+      failedAt: new Date().toISOString()
+    });
+    if (this.deadLetters.length > this.options.deadLetterSize) {
+      this.deadLetters.shift();
+    }
+    this.logger?.error(
+      `A2A push notification for task ${event.task.id} dropped after ${attempts} attempt(s): ${lastError}`
+    );
+  }
+
+  private isAllowedHost(hostname: string): boolean {
+    return this.options.allowedHosts.some(host => host.toLowerCase() === hostname);
+  }
+
+  /**
+   * Refuse a webhook whose host name resolves to a private address - checked
+   * on each delivery, as the DNS answer may change after registration
+   */
+  private async checkResolvedAddresses(url: string): Promise<void> {
+    const refusal = this.checkUrl(url);
+    if (refusal) {
+      throw new PermanentDeliveryError(`Webhook refused: ${refusal}`);
+    }
+
+    const hostname = webhookHostname(url);
+    if (this.isAllowedHost(hostname) || isIP(hostname) !== 0) {
+      return;
+    }
+    const addresses = await this.lookupImpl(hostname);
+    if (addresses.some(isPrivateAddress)) {
+      throw new PermanentDeliveryError(`Webhook refused: host ${hostname} resolves to a private address`);
+    }
+  }
+
+  private async send(config: PushNotificationConfig, body: string): Promise<void> {
+    await this.checkResolvedAddresses(config.url);
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (config.token) {
+      headers['X-A2A-Notification-Token'] = config.token;
+    }
+    if (config.secret) {
+      headers['X-A2A-Signature'] = signPayload(config.secret, body, Math.floor(Date.now() / 1000));
+    }
+    const schemes = config.authentication?.schemes.map(scheme => scheme.toLowerCase()) ?? [];
+    if (config.authentication?.credentials && schemes.includes('bearer')) {
+      headers['Authorization'] = `Bearer ${config.authentication.credentials}`;
+    }
+
+    const response = await this.fetchImpl(config.url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(this.options.requestTimeoutMs)
+    });
+
+    if (!response.ok) {
+      const message = `Webhook responded with HTTP ${response.status}`;
+      // Client errors will not change on retry, except timeouts and rate limits
+      if (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429) {
+        throw new PermanentDeliveryError(message);
+      }
+      throw new Error(message);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        resolve();
+      }, ms);
+      timer.unref?.();
+      this.timers.set(timer, resolve);
+    });
+  }
+}
+
+/**
+ * Host name of a webhook URL, without the brackets of an IPv6 address
+ */
+function webhookHostname(url: string): string {
+  return new URL(url).hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+}
+
+export const pushNotifications = new PushNotificationService(taskManager);
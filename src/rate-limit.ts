@@ -0,0 +1,166 @@
+/**
+ * Rate Limiting
+ *
+ * Limitation des envois de tâches par appelant :
+ * - Token bucket (requêtes par minute, rafale)
+ * - Quota journalier de tâches (remis à zéro à minuit UTC)
+ * - Limites spécifiques par appelant
+ * - Consommation consultable par les admins
+ */
+
+export interface RateLimits {
+  /** Sustained rate of task sends - no rate limit if not set */
+  requestsPerMinute?: number;
+  /** Bucket capacity (default: requestsPerMinute) */
+  burst?: number;
+  /** Task sends per UTC day - no quota if not set */
+  dailyTaskQuota?: number;
+}
+
+export interface RateLimitOptions extends RateLimits {
+  /** Limits of specific callers, by caller name - replace the defaults */
+  callers?: Record<string, RateLimits>;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; reason: 'rate_limited' | 'quota_exceeded'; retryAfterSec: number };
+
+export interface CallerUsage {
+  /** Caller name, or ip:<address> when authentication is off */
+  key: string;
+  tasksToday: number;
+  dailyTaskQuota?: number;
+  /** Sends available right now */
+  remainingBurst?: number;
+  requestsPerMinute?: number;
+}
+
+interface CallerState {
+  tokens: number;
+  refilledAt: number;
+  day: number;
+  tasksToday: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Above this many tracked callers, idle entries are dropped
+const MAX_TRACKED_CALLERS = 10000;
+
+export class RateLimiter {
+  private states = new Map<string, CallerState>();
+
+  constructor(
+    private options: RateLimitOptions = {},
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Record a task send for the caller, unless a limit is exceeded
+   */
+  consume(key: string): RateLimitResult {
+    const now = this.now();
+    const limits = this.getLimits(key);
+    const state = this.getState(key, limits, now);
+
+    if (limits.dailyTaskQuota !== undefined && state.tasksToday >= limits.dailyTaskQuota) {
+      const nextDay = (state.day + 1) * DAY_MS;
+      return { allowed: false, reason: 'quota_exceeded', retryAfterSec: Math.ceil((nextDay - now) / 1000) };
+    }
+
+    if (limits.requestsPerMinute !== undefined) {
+      if (state.tokens < 1) {
+        const perMs = limits.requestsPerMinute / 60000;
+        return { allowed: false, reason: 'rate_limited', retryAfterSec: Math.max(1, Math.ceil((1 - state.tokens) / perMs / 1000)) };
+      }
+      state.tokens -= 1;
+    }
+
+    state.tasksToday += 1;
+    return { allowed: true };
+  }
+
+  /**
+   * Give back a send recorded by consume, once the task turned out to be refused
+   */
+  release(key: string): void {
+    const now = this.now();
+    const limits = this.getLimits(key);
+    const state = this.getState(key, limits, now);
+
+    if (limits.requestsPerMinute !== undefined) {
+      state.tokens = Math.min(limits.burst ?? limits.requestsPerMinute, state.tokens + 1);
+    }
+    state.tasksToday = Math.max(0, state.tasksToday - 1);
+  }
+
+  /**
+   * Usage of one caller, or of every tracked caller
+   */
+  getUsage(key?: string): CallerUsage[] {
+    const now = this.now();
+    const keys = key !== undefined ? [key] : [...this.states.keys()];
+    return keys.map(callerKey => {
+      const limits = this.getLimits(callerKey);
+      const state = this.getState(callerKey, limits, now);
+      return {
+        key: callerKey,
+        tasksToday: state.tasksToday,
+        ...(limits.dailyTaskQuota !== undefined ? { dailyTaskQuota: limits.dailyTaskQuota } : {}),
+        ...(limits.requestsPerMinute !== undefined
+          ? { remainingBurst: Math.floor(state.tokens), requestsPerMinute: limits.requestsPerMinute }
+          : {})
+      };
+    });
+  }
+
+  private getLimits(key: string): RateLimits {
+    // Own entries only: a caller named "constructor" must not get Object's
+    const callers = this.options.callers;
+    return callers !== undefined && Object.hasOwn(callers, key) ? callers[key]! : this.options;
+  }
+
+  /**
+   * State of the caller, refilled and rolled over to the current day
+   */
+  private getState(key: string, limits: RateLimits, now: number): CallerState {
+    const burst = limits.burst ?? limits.requestsPerMinute ?? 0;
+    const day = Math.floor(now / DAY_MS);
+
+    let state = this.states.get(key);
+    if (!state) {
+      if (this.states.size >= MAX_TRACKED_CALLERS) {
+        this.prune(now);
+      }
+      state = { tokens: burst, refilledAt: now, day, tasksToday: 0 };
+      this.states.set(key, state);
+    }
+
+    if (limits.requestsPerMinute !== undefined) {
+      const refill = (now - state.refilledAt) * limits.requestsPerMinute / 60000;
+      state.tokens = Math.min(burst, state.tokens + refill);
+    }
+    state.refilledAt = now;
+
+    if (state.day !== day) {
+      state.day = day;
+      state.tasksToday = 0;
+    }
+    return state;
+  }
+
+  /**
+   * Forget the callers with nothing to remember: no task today and a full bucket
+   */
+  private prune(now: number): void {
+    const day = Math.floor(now / DAY_MS);
+    for (const [key, state] of this.states) {
+      const limits = this.getLimits(key);
+      const burst = limits.burst ?? limits.requestsPerMinute ?? 0;
+      const refill = (now - state.refilledAt) * (limits.requestsPerMinute ?? 0) / 60000;
+      if ((state.day !== day || state.tasksToday === 0) && state.tokens + refill >= burst) {
+        this.states.delete(key);
+      }
+    }
+  }
+}
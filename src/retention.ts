@@ -0,0 +1,100 @@
+/**
+ * Retention Service
+ *
+ * Éviction périodique des tâches terminées :
+ * - Âge maximum par état terminal (completed, failed, canceled)
+ * - Nombre maximum de tâches conservées
+ * - Les tâches non terminales ne sont jamais évincées
+ */
+
+import type { TaskManager } from './task-manager.js';
+
+export type TerminalTaskState = 'completed' | 'failed' | 'canceled';
+
+export interface RetentionPolicy {
+  /** Maximum age per terminal state, measured from the last status change */
+  maxAgeMs?: Partial<Record<TerminalTaskState, number>>;
+  /** Maximum number of stored tasks - the oldest terminal tasks go first */
+  maxTasks?: number;
+}
+
+export interface RetentionStats {
+  evictedByAge: number;
+  evictedByCapacity: number;
+  remaining: number;
+  durationMs: number;
+}
+
+export interface RetentionServiceOptions extends RetentionPolicy {
+  /** Delay between two retention runs */
+  intervalMs?: number;
+}
+
+interface RetentionLogger {
+  info: (message: string) => void;
+  error: (message: string) => void;
+}
+
+export const DEFAULT_RETENTION: Required<RetentionServiceOptions> = {
+  maxAgeMs: {
+    completed: 24 * 60 * 60 * 1000,
+    failed: 7 * 24 * 60 * 60 * 1000,
+    canceled: 24 * 60 * 60 * 1000
+  },
+  maxTasks: 10000,
+  intervalMs: 5 * 60 * 1000
+};
+
+export class RetentionService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private options: Required<RetentionServiceOptions>;
+
+  constructor(
+    private manager: TaskManager,
+    options: RetentionServiceOptions = {},
+    private logger?: RetentionLogger
+  ) {
+    this.options = {
+      maxAgeMs: { ...DEFAULT_RETENTION.maxAgeMs, ...options.maxAgeMs },
+      maxTasks: options.maxTasks ?? DEFAULT_RETENTION.maxTasks,
+      intervalMs: options.intervalMs ?? DEFAULT_RETENTION.intervalMs
+    };
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.runOnce(), this.options.intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  runOnce(): RetentionStats | null {
+    try {
+      const stats = this.manager.applyRetention({
+        maxAgeMs: this.options.maxAgeMs,
+        maxTasks: this.options.maxTasks
+      });
+
+      const evicted = stats.evictedByAge + stats.evictedByCapacity;
+      if (evicted > 0) {
+        this.logger?.info(
+          `A2A retention: evicted ${evicted} task(s) (age: ${stats.evictedByAge}, ` +
+          `capacity: ${stats.evictedByCapacity}), ${stats.remaining} remaining in ${stats.durationMs}ms`
+        );
+      }
+      return stats;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger?.error(`A2A retention run failed: ${message}`);
+      return null;
+    }
+  }
+}
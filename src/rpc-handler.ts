@@ -2,32 +2,107 @@
  * RPC Handler
  * 
  * Gestion des méthodes JSON-RPC A2A :
- * - tasks/send
+ * - tasks/send (création ou reprise d'une tâche input-required)
  * - tasks/get
  * - tasks/cancel
+ * - tasks/resubscribe (reprise d'un flux SSE existant)
+ * - tasks/pushNotification/set et /get (webhooks)
+ * - admin/usage (consommation des appelants)
+ * - agent/authenticatedExtendedCard (AgentCard complète, selon les scopes de l'appelant)
+ * - Batchs JSON-RPC 2.0 et notifications (requêtes sans id)
+ * - message/send, message/stream et autres méthodes récentes (voir protocol-adapter.ts)
  */
 
 import {
+  JSONRPCIdSchema,
   JSONRPCRequestSchema,
   TaskSendParamsSchema,
   TaskGetParamsSchema,
   TaskCancelParamsSchema,
   TaskSendSubscribeParamsSchema,
+  TaskResubscribeParamsSchema,
   TaskListParamsSchema,
+  TaskPushNotificationConfigSchema,
+  TaskPushNotificationGetParamsSchema,
+  UsageParamsSchema,
+  type AgentCard,
   type JSONRPCRequest,
+  type Message,
+  type Task,
   type JSONRPCResponse,
-  type TaskSendSubscribeParams
+  type TaskSendParams,
+  type TaskSendSubscribeParams,
+  type TaskResubscribeParams
 } from './models.js';
-import { taskManager } from './task-manager.js';
+import {
+  taskManager,
+  isTerminalState,
+  getRequestedSkill,
+  InvalidTaskStateError,
+  QueueFullError,
+  SkillNotFoundError,
+  type TaskManager
+} from './task-manager.js';
+import { pushNotifications, type PushNotificationService } from './push-notifications.js';
+import { hasScope, canAccessTask, visibleOwner, type AuthScope, type CallerIdentity } from './auth.js';
+import type { RateLimiter } from './rate-limit.js';
+import { checkMessageLimits, type PayloadLimits } from './payload-limits.js';
+import { normalizeRequest, taskDialect, toCurrentResult, type ProtocolDialect } from './protocol-adapter.js';
+import { visibleSkills, type SkillConfig } from './agent-card.js';
 
 // Marker for SSE stream responses
 export const SSE_STREAM_MARKER = '__sse_stream__';
 
-export interface SSEStreamResponse extends JSONRPCResponse {
-  [SSE_STREAM_MARKER]: true;
-  params: TaskSendSubscribeParams;
+export type SSEStreamResponse = JSONRPCResponse & { [SSE_STREAM_MARKER]: true; dialect: ProtocolDialect } & (
+  | { mode: 'send'; params: TaskSendSubscribeParams }
+  | { mode: 'resubscribe'; params: TaskResubscribeParams }
+);
+
+/**
+ * Task namespace of the agent a request is addressed to
+ */
+export interface RPCContext {
+  taskManager: TaskManager;
+  pushNotifications: PushNotificationService;
+  /** Authenticated caller - absent when authentication is disabled */
+  caller?: CallerIdentity;
+  /** Limits of task sends, with the key of the caller (name or IP) */
+  rateLimit?: { limiter: RateLimiter; key: string };
+  /** Limits of incoming messages (defaults apply when absent) */
+  payloadLimits?: PayloadLimits;
+  /** Card of the agent with the skills visible to the caller */
+  extendedCard?: (caller: CallerIdentity) => AgentCard;
+  /** Configured skills - private ones only run for callers that can see them */
+  skills?: SkillConfig[];
 }
 
+/**
+ * Scope required by each method - every authenticated caller can fetch the
+ * extended card, whose skills depend on its scopes
+ */
+const METHOD_SCOPES: Record<string, AuthScope> = {
+  'tasks/send': 'send',
+  'tasks/sendSubscribe': 'send',
+  'tasks/pushNotification/set': 'send',
+  'tasks/get': 'read',
+  'tasks/resubscribe': 'read',
+  'tasks/list': 'read',
+  'tasks/pushNotification/get': 'read',
+  'tasks/cancel': 'cancel',
+  'admin/usage': 'admin'
+};
+
+/**
+ * Methods starting an agent run - subject to rate limits and quotas
+ */
+const RATE_LIMITED_METHODS = new Set(['tasks/send', 'tasks/sendSubscribe']);
+
+/**
+ * Methods answered with an SSE stream - they need the whole HTTP response,
+ * so they cannot be batched nor sent as notifications
+ */
+const STREAMING_METHODS = new Set(['tasks/sendSubscribe', 'tasks/resubscribe', 'message/stream']);
+
 // ============================================================================
 // ERROR CODES (JSON-RPC 2.0 + A2A)
 // ============================================================================
@@ -39,14 +114,153 @@ const ErrorCodes = {
   INVALID_PARAMS: -32602,
   INTERNAL_ERROR: -32603,
   TASK_NOT_FOUND: -32001,
-  TASK_CANNOT_BE_CANCELED: -32002
+  TASK_CANNOT_BE_CANCELED: -32002,
+  PUSH_NOTIFICATION_NOT_SUPPORTED: -32003,
+  UNSUPPORTED_OPERATION: -32004,
+  EXTENDED_CARD_NOT_CONFIGURED: -32007,
+  // Extension-specific codes
+  TASK_INVALID_STATE: -32010,
+  QUEUE_FULL: -32011,
+  SKILL_NOT_FOUND: -32012,
+  FORBIDDEN: -32013,
+  RATE_LIMITED: -32014
 } as const;
 
+/**
+ * Seconds to wait before retrying - set when the response is a rate limit error
+ */
+export function getRetryAfter(response: JSONRPCResponse): number | undefined {
+  if (response.error?.code !== ErrorCodes.RATE_LIMITED) {
+    return undefined;
+  }
+  return (response.error.data as { retryAfter: number }).retryAfter;
+}
+
+/**
+ * Map errors thrown by TaskManager.createTask to JSON-RPC error responses
+ */
+export function taskErrorResponse(error: unknown): JSONRPCResponse | null {
+  if (error instanceof InvalidTaskStateError) {
+    return {
+      jsonrpc: '2.0',
+      error: {
+        code: ErrorCodes.TASK_INVALID_STATE,
+        message: error.message,
+        data: { taskId: error.taskId, state: error.state }
+      },
+      id: undefined
+    };
+  }
+
+  if (error instanceof QueueFullError) {
+    return {
+      jsonrpc: '2.0',
+      error: {
+        code: ErrorCodes.QUEUE_FULL,
+        message: error.message,
+        data: { maxQueueDepth: error.maxQueueDepth }
+      },
+      id: undefined
+    };
+  }
+
+  if (error instanceof SkillNotFoundError) {
+    return {
+      jsonrpc: '2.0',
+      error: {
+        code: ErrorCodes.SKILL_NOT_FOUND,
+        message: error.message,
+        data: { skillId: error.skillId }
+      },
+      id: undefined
+    };
+  }
+
+  return null;
+}
+
+export interface PresentTaskOptions {
+  /** Keep the recorded state transitions (omitted by default) */
+  includeStateTransitions?: boolean;
+}
+
+/**
+ * Task as returned to callers - tasks waiting for a slot report their queue
+ * position, and state transitions are only included on request
+ */
+export function presentTask(task: Task, manager: TaskManager = taskManager, options: PresentTaskOptions = {}): Task {
+  const { stateTransitions, ...view } = task;
+  const queuePosition = manager.getQueuePosition(task.id);
+
+  return {
+    ...view,
+    ...(options.includeStateTransitions && stateTransitions ? { stateTransitions } : {}),
+    ...(queuePosition !== undefined ? { metadata: { ...task.metadata, queuePosition } } : {})
+  };
+}
+
+/**
+ * Task visible to the caller - other callers' tasks look like missing ones,
+ * so their ids are not revealed
+ */
+function getVisibleTask(context: RPCContext, taskId: string): Task | undefined {
+  const task = context.taskManager.getTask(taskId);
+  return task && canAccessTask(context.caller, task) ? task : undefined;
+}
+
+/**
+ * Invalid params error when the message exceeds the payload limits
+ */
+function payloadLimitError(message: Message, context: RPCContext): JSONRPCResponse | null {
+  const violation = checkMessageLimits(message, context.payloadLimits);
+  if (!violation) {
+    return null;
+  }
+  return {
+    jsonrpc: '2.0',
+    error: {
+      code: ErrorCodes.INVALID_PARAMS,
+      message: `Message exceeds payload limits: ${violation}`
+    },
+    id: undefined
+  };
+}
+
+/**
+ * SKILL_NOT_FOUND for a skill without handler, or hidden from the caller -
+ * both answer the same, so that private skill ids cannot be probed
+ */
+function skillError(params: TaskSendParams, context: RPCContext): JSONRPCResponse | undefined {
+  const skillId = getRequestedSkill(params);
+  if (skillId === undefined) {
+    return undefined;
+  }
+
+  const hidden = context.skills !== undefined &&
+    context.skills.some(skill => skill.id === skillId) &&
+    !visibleSkills(context.skills, context.caller).some(skill => skill.id === skillId);
+  if (hidden || !context.taskManager.hasHandler(skillId)) {
+    return taskErrorResponse(new SkillNotFoundError(skillId))!;
+  }
+  return undefined;
+}
+
+function taskNotFound(taskId: string): JSONRPCResponse {
+  return {
+    jsonrpc: '2.0',
+    error: {
+      code: ErrorCodes.TASK_NOT_FOUND,
+      message: `Task not found: ${taskId}`
+    },
+    id: undefined
+  };
+}
+
 // ============================================================================
 // HANDLER FUNCTIONS
 // ============================================================================
 
-async function handleTaskSend(params: unknown): Promise<JSONRPCResponse> {
+async function handleTaskSend(params: unknown, context: RPCContext): Promise<JSONRPCResponse> {
   const parseResult = TaskSendParamsSchema.safeParse(params);
   
   if (!parseResult.success) {
@@ -61,16 +275,61 @@ async function handleTaskSend(params: unknown): Promise<JSONRPCResponse> {
     };
   }
 
-  const task = await taskManager.createTask(parseResult.data);
+  const limitError = payloadLimitError(parseResult.data.message, context);
+  if (limitError) {
+    return limitError;
+  }
+
+  // Only the owner can continue a task
+  const { id, pushNotification } = parseResult.data;
+  if (context.taskManager.getTask(id) && !getVisibleTask(context, id)) {
+    return taskNotFound(id);
+  }
+
+  const unknownSkill = skillError(parseResult.data, context);
+  if (unknownSkill) {
+    return unknownSkill;
+  }
+
+  // Subscribe before creating the task so the first events are delivered too
+  const previousConfig = context.pushNotifications.getConfig(id);
+  if (pushNotification) {
+    if (!context.pushNotifications.enabled) {
+      return pushNotificationNotSupported();
+    }
+    const refusal = context.pushNotifications.checkUrl(pushNotification.url);
+    if (refusal) {
+      return pushNotificationUrlRefused(refusal);
+    }
+    context.pushNotifications.setConfig(id, pushNotification);
+  }
+
+  let task: Task;
+  try {
+    task = await context.taskManager.createTask(parseResult.data, context.caller?.name);
+  } catch (error) {
+    if (pushNotification) {
+      if (previousConfig) {
+        context.pushNotifications.setConfig(id, previousConfig);
+      } else {
+        context.pushNotifications.deleteConfig(id);
+      }
+    }
+    const errorResponse = taskErrorResponse(error);
+    if (errorResponse) {
+      return errorResponse;
+    }
+    throw error;
+  }
   
   return {
     jsonrpc: '2.0',
-    result: task,
+    result: presentTask(task, context.taskManager),
     id: undefined
   };
 }
 
-async function handleTaskGet(params: unknown): Promise<JSONRPCResponse> {
+async function handleTaskGet(params: unknown, context: RPCContext): Promise<JSONRPCResponse> {
   const parseResult = TaskGetParamsSchema.safeParse(params);
   
   if (!parseResult.success) {
@@ -85,27 +344,22 @@ async function handleTaskGet(params: unknown): Promise<JSONRPCResponse> {
     };
   }
 
-  const task = taskManager.getTask(parseResult.data.id);
+  const task = getVisibleTask(context, parseResult.data.id);
   
   if (!task) {
-    return {
-      jsonrpc: '2.0',
-      error: {
-        code: ErrorCodes.TASK_NOT_FOUND,
-        message: `Task not found: ${parseResult.data.id}`
-      },
-      id: undefined
-    };
+    return taskNotFound(parseResult.data.id);
   }
 
   return {
     jsonrpc: '2.0',
-    result: task,
+    result: presentTask(task, context.taskManager, {
+      includeStateTransitions: parseResult.data.includeStateTransitions ?? false
+    }),
     id: undefined
   };
 }
 
-async function handleTaskCancel(params: unknown): Promise<JSONRPCResponse> {
+async function handleTaskCancel(params: unknown, context: RPCContext): Promise<JSONRPCResponse> {
   const parseResult = TaskCancelParamsSchema.safeParse(params);
   
   if (!parseResult.success) {
@@ -120,18 +374,15 @@ async function handleTaskCancel(params: unknown): Promise<JSONRPCResponse> {
     };
   }
 
-  const result = taskManager.cancelTask(parseResult.data.id);
+  if (!getVisibleTask(context, parseResult.data.id)) {
+    return taskNotFound(parseResult.data.id);
+  }
+
+  const result = context.taskManager.cancelTask(parseResult.data.id);
   
   if (!result.success) {
     if (result.reason === 'not_found') {
-      return {
-        jsonrpc: '2.0',
-        error: {
-          code: ErrorCodes.TASK_NOT_FOUND,
-          message: `Task not found: ${parseResult.data.id}`
-        },
-        id: undefined
-      };
+      return taskNotFound(parseResult.data.id);
     }
     return {
       jsonrpc: '2.0',
@@ -153,7 +404,7 @@ async function handleTaskCancel(params: unknown): Promise<JSONRPCResponse> {
 /**
  * Handle tasks/sendSubscribe - returns SSE marker for streaming response
  */
-async function handleTaskSendSubscribe(params: unknown): Promise<JSONRPCResponse | SSEStreamResponse> {
+async function handleTaskSendSubscribe(params: unknown, context: RPCContext): Promise<JSONRPCResponse | SSEStreamResponse> {
   const parseResult = TaskSendSubscribeParamsSchema.safeParse(params);
   
   if (!parseResult.success) {
@@ -168,20 +419,178 @@ async function handleTaskSendSubscribe(params: unknown): Promise<JSONRPCResponse
     };
   }
 
+  const limitError = payloadLimitError(parseResult.data.message, context);
+  if (limitError) {
+    return limitError;
+  }
+
+  // Reject follow-up messages to tasks that are not waiting for input, and
+  // unknown skills, before the HTTP layer commits to an SSE response
+  const existing = context.taskManager.getTask(parseResult.data.id);
+  if (existing && !canAccessTask(context.caller, existing)) {
+    return taskNotFound(existing.id);
+  }
+  if (existing && existing.status.state !== 'input-required') {
+    return taskErrorResponse(new InvalidTaskStateError(existing.id, existing.status.state))!;
+  }
+
+  const unknownSkill = skillError(parseResult.data, context);
+  if (unknownSkill) {
+    return unknownSkill;
+  }
+
   // Return SSE marker - the HTTP layer will handle actual streaming
   return {
     jsonrpc: '2.0',
     result: null,
     id: undefined,
     [SSE_STREAM_MARKER]: true,
+    mode: 'send',
     params: parseResult.data
   } as SSEStreamResponse;
 }
 
+/**
+ * Handle tasks/resubscribe - reattach to the event stream of an existing task
+ */
+async function handleTaskResubscribe(params: unknown, context: RPCContext): Promise<JSONRPCResponse | SSEStreamResponse> {
+  const parseResult = TaskResubscribeParamsSchema.safeParse(params);
+  
+  if (!parseResult.success) {
+    return {
+      jsonrpc: '2.0',
+      error: {
+        code: ErrorCodes.INVALID_PARAMS,
+        message: 'Invalid task resubscribe parameters',
+        data: parseResult.error.issues
+      },
+      id: undefined
+    };
+  }
+
+  if (!getVisibleTask(context, parseResult.data.id)) {
+    return taskNotFound(parseResult.data.id);
+  }
+
+  // Return SSE marker - the HTTP layer replays missed events then streams live ones
+  return {
+    jsonrpc: '2.0',
+    result: null,
+    id: undefined,
+    [SSE_STREAM_MARKER]: true,
+    mode: 'resubscribe',
+    params: parseResult.data
+  } as SSEStreamResponse;
+}
+
+function pushNotificationNotSupported(): JSONRPCResponse {
+  return {
+    jsonrpc: '2.0',
+    error: {
+      code: ErrorCodes.PUSH_NOTIFICATION_NOT_SUPPORTED,
+      message: 'Push notifications are not supported'
+    },
+    id: undefined
+  };
+}
+
+function pushNotificationUrlRefused(reason: string): JSONRPCResponse {
+  return {
+    jsonrpc: '2.0',
+    error: {
+      code: ErrorCodes.INVALID_PARAMS,
+      message: `Push notification URL refused: ${reason}`
+    },
+    id: undefined
+  };
+}
+
+/**
+ * Handle tasks/pushNotification/set - register the webhook of a task
+ */
+async function handleTaskPushNotificationSet(params: unknown, context: RPCContext): Promise<JSONRPCResponse> {
+  const parseResult = TaskPushNotificationConfigSchema.safeParse(params);
+  
+  if (!parseResult.success) {
+    return {
+      jsonrpc: '2.0',
+      error: {
+        code: ErrorCodes.INVALID_PARAMS,
+        message: 'Invalid push notification parameters',
+        data: parseResult.error.issues
+      },
+      id: undefined
+    };
+  }
+
+  if (!context.pushNotifications.enabled) {
+    return pushNotificationNotSupported();
+  }
+
+  const refusal = context.pushNotifications.checkUrl(parseResult.data.pushNotificationConfig.url);
+  if (refusal) {
+    return pushNotificationUrlRefused(refusal);
+  }
+
+  const task = getVisibleTask(context, parseResult.data.id);
+  
+  if (!task) {
+    return taskNotFound(parseResult.data.id);
+  }
+
+  // A terminal task emits no more events
+  if (isTerminalState(task.status.state)) {
+    return taskErrorResponse(new InvalidTaskStateError(task.id, task.status.state))!;
+  }
+
+  context.pushNotifications.setConfig(task.id, parseResult.data.pushNotificationConfig);
+
+  return {
+    jsonrpc: '2.0',
+    result: parseResult.data,
+    id: undefined
+  };
+}
+
+/**
+ * Handle tasks/pushNotification/get - null when no webhook is registered
+ */
+async function handleTaskPushNotificationGet(params: unknown, context: RPCContext): Promise<JSONRPCResponse> {
+  const parseResult = TaskPushNotificationGetParamsSchema.safeParse(params);
+  
+  if (!parseResult.success) {
+    return {
+      jsonrpc: '2.0',
+      error: {
+        code: ErrorCodes.INVALID_PARAMS,
+        message: 'Invalid push notification parameters',
+        data: parseResult.error.issues
+      },
+      id: undefined
+    };
+  }
+
+  if (!context.pushNotifications.enabled) {
+    return pushNotificationNotSupported();
+  }
+
+  if (!getVisibleTask(context, parseResult.data.id)) {
+    return taskNotFound(parseResult.data.id);
+  }
+
+  const config = context.pushNotifications.getConfig(parseResult.data.id);
+
+  return {
+    jsonrpc: '2.0',
+    result: config ? { id: parseResult.data.id, pushNotificationConfig: config } : null,
+    id: undefined
+  };
+}
+
 /**
  * Handle tasks/list - list tasks with pagination
  */
-async function handleTaskList(params: unknown): Promise<JSONRPCResponse> {
+async function handleTaskList(params: unknown, context: RPCContext): Promise<JSONRPCResponse> {
   const parseResult = TaskListParamsSchema.safeParse(params || {});
   
   if (!parseResult.success) {
@@ -196,11 +605,70 @@ async function handleTaskList(params: unknown): Promise<JSONRPCResponse> {
     };
   }
 
-  const result = taskManager.listTasks(parseResult.data);
+  const result = context.taskManager.listTasks(parseResult.data, visibleOwner(context.caller));
+  
+  return {
+    jsonrpc: '2.0',
+    result: { ...result, tasks: result.tasks.map(task => presentTask(task, context.taskManager)) },
+    id: undefined
+  };
+}
+
+/**
+ * Handle admin/usage - task sends of every caller today, or of params.caller
+ */
+function handleUsage(params: unknown, context: RPCContext): JSONRPCResponse {
+  const parseResult = UsageParamsSchema.safeParse(params || {});
   
+  if (!parseResult.success) {
+    return {
+      jsonrpc: '2.0',
+      error: {
+        code: ErrorCodes.INVALID_PARAMS,
+        message: 'Invalid usage parameters',
+        data: parseResult.error.issues
+      },
+      id: undefined
+    };
+  }
+
   return {
     jsonrpc: '2.0',
-    result,
+    result: { callers: context.rateLimit?.limiter.getUsage(parseResult.data.caller) ?? [] },
+    id: undefined
+  };
+}
+
+/**
+ * Handle agent/authenticatedExtendedCard - needs an authenticated caller
+ */
+function handleExtendedCard(context: RPCContext): JSONRPCResponse {
+  if (!context.caller || !context.extendedCard) {
+    return {
+      jsonrpc: '2.0',
+      error: {
+        code: ErrorCodes.EXTENDED_CARD_NOT_CONFIGURED,
+        message: 'Authenticated extended card is not configured'
+      },
+      id: undefined
+    };
+  }
+
+  return {
+    jsonrpc: '2.0',
+    result: context.extendedCard(context.caller),
+    id: undefined
+  };
+}
+
+function streamingUnsupported(method: string, reason: string): JSONRPCResponse {
+  return {
+    jsonrpc: '2.0',
+    error: {
+      code: ErrorCodes.UNSUPPORTED_OPERATION,
+      message: `Streaming method ${method} cannot be ${reason}`,
+      data: { method }
+    },
     id: undefined
   };
 }
@@ -209,7 +677,44 @@ async function handleTaskList(params: unknown): Promise<JSONRPCResponse> {
 // MAIN HANDLER
 // ============================================================================
 
-export async function handleRPC(request: unknown): Promise<JSONRPCResponse | SSEStreamResponse> {
+/**
+ * Handle a request of either protocol dialect - the response uses the
+ * dialect of the method, or of the task for methods common to both
+ */
+export async function handleRPC(
+  request: unknown,
+  context: RPCContext = { taskManager, pushNotifications }
+): Promise<JSONRPCResponse | SSEStreamResponse> {
+  const normalized = normalizeRequest(request);
+  const response = await dispatchRPC(normalized.request, context);
+
+  // Invalid requests (null, numbers, no method) are answered by dispatchRPC as is
+  const internal = normalized.request as { method?: unknown; params?: Record<string, unknown> } | null;
+  if (typeof internal !== 'object' || internal === null || typeof internal.method !== 'string') {
+    return response;
+  }
+
+  const { method, params } = internal as { method: string; params?: Record<string, unknown> };
+  const taskId = typeof params?.id === 'string' ? params.id : undefined;
+  const task = taskId !== undefined ? context.taskManager.getTask(taskId) : undefined;
+  const dialect = normalized.dialect ?? (task ? taskDialect(task) : 'legacy');
+
+  if (SSE_STREAM_MARKER in response) {
+    return { ...response, dialect };
+  }
+  if (dialect === 'legacy' || response.error || response.result === undefined) {
+    return response;
+  }
+  return {
+    ...response,
+    result: toCurrentResult(method, params ?? {}, response.result, task, normalized.historyLength)
+  };
+}
+
+async function dispatchRPC(
+  request: unknown,
+  context: RPCContext
+): Promise<JSONRPCResponse | SSEStreamResponse> {
   const parseResult = JSONRPCRequestSchema.safeParse(request);
   
   if (!parseResult.success) {
@@ -227,22 +732,72 @@ export async function handleRPC(request: unknown): Promise<JSONRPCResponse | SSE
   const { method, params, id } = parseResult.data;
 
   let response: JSONRPCResponse | SSEStreamResponse;
+
+  if (id === undefined && STREAMING_METHODS.has(method)) {
+    return streamingUnsupported(method, 'sent as a notification');
+  }
+
+  const scope = METHOD_SCOPES[method];
+  if (context.caller && scope && !hasScope(context.caller, scope)) {
+    return {
+      jsonrpc: '2.0',
+      error: {
+        code: ErrorCodes.FORBIDDEN,
+        message: `Caller ${context.caller.name} lacks the ${scope} scope`,
+        data: { scope }
+      },
+      id
+    };
+  }
+  
+  // Counted up front so that concurrent sends cannot overrun the limits,
+  // given back below when the task is refused
+  const rateLimit = context.rateLimit && RATE_LIMITED_METHODS.has(method) ? context.rateLimit : undefined;
+  if (rateLimit) {
+    const limit = rateLimit.limiter.consume(rateLimit.key);
+    if (limit.allowed === false) {
+      return {
+        jsonrpc: '2.0',
+        error: {
+          code: ErrorCodes.RATE_LIMITED,
+          message: limit.reason === 'quota_exceeded' ? 'Daily task quota exceeded' : 'Rate limit exceeded',
+          data: { reason: limit.reason, retryAfter: limit.retryAfterSec }
+        },
+        id
+      };
+    }
+  }
   
   switch (method) {
     case 'tasks/send':
-      response = await handleTaskSend(params);
+      response = await handleTaskSend(params, context);
       break;
     case 'tasks/sendSubscribe':
-      response = await handleTaskSendSubscribe(params);
+      response = await handleTaskSendSubscribe(params, context);
+      break;
+    case 'tasks/resubscribe':
+      response = await handleTaskResubscribe(params, context);
       break;
     case 'tasks/get':
-      response = await handleTaskGet(params);
+      response = await handleTaskGet(params, context);
       break;
     case 'tasks/cancel':
-      response = await handleTaskCancel(params);
+      response = await handleTaskCancel(params, context);
       break;
     case 'tasks/list':
-      response = await handleTaskList(params);
+      response = await handleTaskList(params, context);
+      break;
+    case 'tasks/pushNotification/set':
+      response = await handleTaskPushNotificationSet(params, context);
+      break;
+    case 'tasks/pushNotification/get':
+      response = await handleTaskPushNotificationGet(params, context);
+      break;
+    case 'admin/usage':
+      response = handleUsage(params, context);
+      break;
+    case 'agent/authenticatedExtendedCard':
+      response = handleExtendedCard(context);
       break;
     default:
       response = {
@@ -255,7 +810,61 @@ export async function handleRPC(request: unknown): Promise<JSONRPCResponse | SSE
       };
   }
 
+  if (rateLimit && response.error) {
+    rateLimit.limiter.release(rateLimit.key);
+  }
+
   response.id = id;
   
   return response;
 }
+
+/**
+ * A valid request without id: executed, but never answered
+ */
+export function isNotification(request: unknown): boolean {
+  return JSONRPCRequestSchema.safeParse(request).success && (request as { id?: unknown }).id === undefined;
+}
+
+/**
+ * JSON-RPC 2.0 batch: the requests run concurrently and their responses are
+ * returned in the same order, notifications excepted. Returns null when there
+ * is nothing to answer (only notifications).
+ */
+export async function handleRPCBatch(
+  requests: unknown[],
+  context: RPCContext = { taskManager, pushNotifications }
+): Promise<JSONRPCResponse | JSONRPCResponse[] | null> {
+  if (requests.length === 0) {
+    return {
+      jsonrpc: '2.0',
+      error: {
+        code: ErrorCodes.INVALID_REQUEST,
+        message: 'Empty batch'
+      },
+      id: null
+    };
+  }
+
+  const responses = await Promise.all(requests.map(async (request): Promise<JSONRPCResponse | null> => {
+    const method = (request as { method?: unknown } | null)?.method;
+    const id = (request as { id?: unknown } | null)?.id;
+
+    let response: JSONRPCResponse;
+    if (typeof method === 'string' && STREAMING_METHODS.has(method)) {
+      response = streamingUnsupported(method, 'batched');
+      response.id = JSONRPCIdSchema.safeParse(id).success ? id as JSONRPCResponse['id'] : null;
+    } else {
+      response = await handleRPC(request, context);
+    }
+
+    if (isNotification(request)) {
+      return null;
+    }
+    // Invalid entries are answered with a null id
+    return { ...response, id: response.id ?? null };
+  }));
+
+  const answered = responses.filter((response): response is JSONRPCResponse => response !== null);
+  return answered.length > 0 ? answered : null;
+}
@@ -2,23 +2,107 @@
  * Task Manager
  * 
  * Gestion du cycle de vie des tâches A2A :
- * - Stockage en mémoire (tasks are lost on restart)
+ * - Stockage via un TaskStore (mémoire par défaut, fichier en option)
  * - Transitions d'état
+ * - File d'exécution bornée (concurrence, priorités)
+ * - Échéances par tâche et timeout d'exécution
+ * - Routage vers un handler par skill (handler par défaut sinon)
  * - Exécution via le runtime OpenClaw
- * - Event emission for SSE streaming
+ * - Event emission for SSE streaming (numérotés, rejouables)
  * 
- * Note: Tasks are stored in memory only. Call cleanup() periodically
- * to remove old tasks and prevent memory growth. The default retention
- * is 24 hours.
+ * Note: Old terminal tasks are evicted by the RetentionService
+ * (see retention.ts), which calls applyRetention() periodically.
  */
 
 import { EventEmitter } from 'events';
-import type { Task, TaskSendParams, TaskListParams, TaskEvent, TaskState, Artifact, Message } from './models.js';
+import type { Task, TaskSendParams, TaskListParams, TaskEvent, TaskState, TaskStatus, Artifact, Message } from './models.js';
+import { InMemoryTaskStore, type TaskStore } from './task-store.js';
+import type { RetentionPolicy, RetentionStats, TerminalTaskState } from './retention.js';
 
-export type TaskHandler = (message: Message) => Promise<{
+/**
+ * Context passed to the handler alongside the latest message
+ */
+export interface TaskContext {
+  taskId: string;
+  sessionId: string;
+  /** Whole conversation, latest message included */
+  history: Message[];
+  /** Skill the task was routed to, if one was requested */
+  skillId?: string;
+  /** Authenticated caller that created the task */
+  caller?: string;
+  /** Aborted when the task is canceled - handlers should stop their work */
+  signal: AbortSignal;
+}
+
+export interface TaskHandlerResult {
   response: Message;
   artifacts?: Artifact[];
-}>;
+  /** Set when the agent needs more input: the task moves to input-required */
+  inputRequired?: boolean;
+}
+
+/**
+ * Incremental output of a streaming handler:
+ * - text: partial response text, forwarded as a partial agent message
+ * - status: progress message, the task stays working
+ * - artifact: artifact chunk, merged by index (see append / lastChunk)
+ * - result: final response (defaults to the concatenated text) and input-required flag
+ */
+export type TaskHandlerUpdate =
+  | { type: 'text'; text: string }
+  | { type: 'status'; message: string }
+  | { type: 'artifact'; artifact: Artifact }
+  | { type: 'result'; response?: Message; inputRequired?: boolean };
+
+export type StreamingTaskHandler = (message: Message, context: TaskContext) => AsyncIterable<TaskHandlerUpdate>;
+
+export type TaskHandler =
+  | ((message: Message, context: TaskContext) => Promise<TaskHandlerResult>)
+  | StreamingTaskHandler;
+
+function isAsyncIterable<T>(value: unknown): value is AsyncIterable<T> {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as AsyncIterable<T>)[Symbol.asyncIterator] === 'function';
+}
+
+const TERMINAL_STATES: readonly TaskState[] = ['completed', 'failed', 'canceled'];
+
+const ALLOWED_TRANSITIONS: Record<TaskState, readonly TaskState[]> = {
+  'submitted': ['working', 'failed', 'canceled'],
+  'working': ['input-required', 'completed', 'failed', 'canceled'],
+  'input-required': ['submitted', 'failed', 'canceled'],
+  'completed': [],
+  'failed': [],
+  'canceled': []
+};
+
+export function isTerminalState(state: TaskState): boolean {
+  return TERMINAL_STATES.includes(state);
+}
+
+/**
+ * Thrown when a message targets an existing task that cannot accept it
+ */
+export class InvalidTaskStateError extends Error {
+  constructor(
+    public readonly taskId: string,
+    public readonly state: TaskState
+  ) {
+    super(`Task ${taskId} cannot accept new messages (current state: ${state})`);
+    this.name = 'InvalidTaskStateError';
+  }
+}
+
+/**
+ * Thrown when a request names a skill that has no registered handler
+ */
+export class SkillNotFoundError extends Error {
+  constructor(public readonly skillId: string) {
+    super(`Skill not found: ${skillId}`);
+    this.name = 'SkillNotFoundError';
+  }
+}
 
 export interface TaskListResult {
   tasks: Task[];
@@ -26,27 +110,331 @@ export interface TaskListResult {
   hasMore: boolean;
 }
 
+/**
+ * Thrown when a new task arrives while the execution queue is full
+ */
+export class QueueFullError extends Error {
+  constructor(public readonly maxQueueDepth: number) {
+    super(`Task queue is full (max depth: ${maxQueueDepth})`);
+    this.name = 'QueueFullError';
+  }
+}
+
+export interface SchedulerOptions {
+  /** Tasks executing at the same time across all sessions */
+  maxConcurrent?: number;
+  /** Tasks executing at the same time within one session */
+  maxPerSession?: number;
+  /** Tasks allowed to wait for a slot before new ones are rejected */
+  maxQueueDepth?: number;
+}
+
+interface QueueEntry {
+  taskId: string;
+  sessionId: string;
+  priority: number;
+}
+
+const PRIORITY_LEVELS: Record<string, number> = {
+  low: -10,
+  normal: 0,
+  high: 10
+};
+
+/**
+ * Read the scheduling priority from task metadata (number or low/normal/high)
+ */
+function getPriority(metadata: Record<string, unknown> | undefined): number {
+  const priority = metadata?.priority;
+  if (typeof priority === 'number' && Number.isFinite(priority)) {
+    return priority;
+  }
+  if (typeof priority === 'string') {
+    return PRIORITY_LEVELS[priority] ?? 0;
+  }
+  return 0;
+}
+
+/**
+ * Read a per-request deadline from metadata (ISO date or epoch milliseconds)
+ */
+function getDeadline(metadata: Record<string, unknown> | undefined): number | undefined {
+  const deadline = metadata?.deadline;
+  if (typeof deadline === 'number' && Number.isFinite(deadline)) {
+    return deadline;
+  }
+  if (typeof deadline === 'string') {
+    const time = Date.parse(deadline);
+    return Number.isNaN(time) ? undefined : time;
+  }
+  return undefined;
+}
+
+/**
+ * Skill requested by a message: message metadata first, then request metadata
+ */
+export function getRequestedSkill(params: Pick<TaskSendParams, 'message' | 'metadata'>): string | undefined {
+  const skillId = params.message.metadata?.skillId ?? params.metadata?.skillId;
+  return typeof skillId === 'string' ? skillId : undefined;
+}
+
+export interface TaskManagerOptions {
+  store?: TaskStore;
+  scheduler?: SchedulerOptions;
+  /** Maximum execution time of a handler run, unlimited if not set */
+  defaultTimeoutMs?: number;
+  /** Events retained per task for resubscription (default: 100) */
+  eventBufferSize?: number;
+  /** How long the events of a terminal task stay replayable (default: 60 s) */
+  eventLogTtlMs?: number;
+}
+
+/**
+ * Buffered event - the task itself is not copied: replay rebuilds it from
+ * the live task, with the status it had when the event was emitted
+ */
+interface BufferedEvent {
+  type: TaskEvent['type'];
+  seq: number;
+  status: TaskStatus;
+  artifact?: Artifact;
+  message?: Message;
+}
+
 export class TaskManager extends EventEmitter {
-  private tasks = new Map<string, Task>();
-  private taskOrder: string[] = []; // Track insertion order for pagination
-  private handler: TaskHandler | null = null;
+  private store: TaskStore;
+  private handler: TaskHandler | null = null; // Default handler
+  private handlers = new Map<string, TaskHandler>(); // Handlers by skill id
+  private controllers = new Map<string, AbortController>(); // Running executions
+
+  // Scheduler state - unlimited unless configured
+  private limits: Required<SchedulerOptions> = {
+    maxConcurrent: Infinity,
+    maxPerSession: Infinity,
+    maxQueueDepth: Infinity
+  };
+  private queue: QueueEntry[] = []; // Sorted by priority, FIFO within a priority
+  private running = 0;
+  private pumping = false;
+  private runningBySession = new Map<string, number>();
+
+  // Recent events per task, replayed to clients that resubscribe
+  private eventLogs = new Map<string, { lastSeq: number; events: BufferedEvent[] }>();
+  private eventBufferSize: number;
+  private eventLogTtlMs: number;
+
+  private defaultTimeoutMs: number | undefined;
+  private timers = new Map<string, Array<ReturnType<typeof setTimeout>>>(); // Deadlines of active tasks
+
+  constructor(options: TaskManagerOptions = {}) {
+    super();
+    this.store = options.store ?? new InMemoryTaskStore();
+    this.defaultTimeoutMs = options.defaultTimeoutMs;
+    this.eventBufferSize = options.eventBufferSize ?? 100;
+    this.eventLogTtlMs = options.eventLogTtlMs ?? 60_000;
+    if (options.scheduler) {
+      this.configureScheduler(options.scheduler);
+    }
+  }
+
+  setDefaultTimeout(timeoutMs: number | undefined): void {
+    this.defaultTimeoutMs = timeoutMs;
+  }
+
+  configureScheduler(options: SchedulerOptions): void {
+    this.limits = {
+      maxConcurrent: options.maxConcurrent ?? Infinity,
+      maxPerSession: options.maxPerSession ?? Infinity,
+      maxQueueDepth: options.maxQueueDepth ?? Infinity
+    };
+    this.pump();
+  }
 
+  /**
+   * Set the default handler, used for tasks that do not request a skill
+   */
   setHandler(handler: TaskHandler): void {
     this.handler = handler;
   }
 
+  /**
+   * Route the tasks requesting skillId to a dedicated handler
+   */
+  registerHandler(skillId: string, handler: TaskHandler): void {
+    this.handlers.set(skillId, handler);
+  }
+
+  unregisterHandler(skillId: string): boolean {
+    return this.handlers.delete(skillId);
+  }
+
+  hasHandler(skillId: string): boolean {
+    return this.handlers.has(skillId);
+  }
+
+  /**
+   * Skill handlers of this manager, by skill id
+   */
+  getHandlers(): Map<string, TaskHandler> {
+    return new Map(this.handlers);
+  }
+
+  setStore(store: TaskStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Mark tasks left in a non-terminal state by a previous process as failed.
+   * Their executions died with that process, so they can never complete.
+   */
+  recoverInterruptedTasks(): number {
+    let recovered = 0;
+    
+    for (const task of this.store.values()) {
+      if (task.status.state === 'submitted' || task.status.state === 'working') {
+        this.transition(task, 'failed', 'Task interrupted by gateway restart');
+        recovered++;
+      }
+    }
+
+    return recovered;
+  }
+
   private emitTaskEvent(type: TaskEvent['type'], task: Task, extra?: { artifact?: Artifact; message?: Message }): void {
+    const log = this.eventLogs.get(task.id) ?? { lastSeq: 0, events: [] };
+    this.eventLogs.set(task.id, log);
+
     const event: TaskEvent = {
       type,
       task,
-      ...extra
+      ...extra,
+      seq: ++log.lastSeq
     };
+
+    // Copy what changes after this event - the status and the parts of a merged artifact
+    log.events.push(structuredClone({
+      type,
+      seq: event.seq,
+      status: task.status,
+      ...extra
+    }));
+    if (log.events.length > this.eventBufferSize) {
+      log.events.shift();
+    }
+
     this.emit('task', event);
   }
 
-  async createTask(params: TaskSendParams): Promise<Task> {
+  /**
+   * Buffered events of a task with a sequence number above afterSeq
+   */
+  getEventsSince(taskId: string, afterSeq: number = 0): TaskEvent[] {
+    const task = this.store.get(taskId);
+    if (!task) {
+      return [];
+    }
+
+    const events = this.eventLogs.get(taskId)?.events ?? [];
+    return events
+      .filter(event => event.seq > afterSeq)
+      .map(({ status, ...event }) => ({ ...event, task: { ...task, status } }));
+  }
+
+  getLastEventSeq(taskId: string): number {
+    return this.eventLogs.get(taskId)?.lastSeq ?? 0;
+  }
+
+  private evict(taskId: string): void {
+    this.store.delete(taskId);
+    this.eventLogs.delete(taskId);
+  }
+
+  /**
+   * Move a task to a new state, record the transition, persist it and emit a status event.
+   * Returns false (and leaves the task untouched) for a disallowed transition.
+   */
+  private transition(task: Task, state: TaskState, message?: string): boolean {
+    if (!ALLOWED_TRANSITIONS[task.status.state].includes(state)) {
+      return false;
+    }
+
+    const from = task.status.state;
+    task.status = {
+      state,
+      timestamp: new Date().toISOString(),
+      ...(message !== undefined ? { message } : {})
+    };
+    task.stateTransitions = [
+      ...(task.stateTransitions ?? []),
+      { from, to: state, timestamp: task.status.timestamp, ...(message !== undefined ? { message } : {}) }
+    ];
+    if (isTerminalState(state) || state === 'input-required') {
+      this.clearTimers(task.id);
+    }
+    this.store.save(task);
+    this.emitTaskEvent('status', task);
+    if (isTerminalState(state)) {
+      this.expireEventLog(task.id);
+    }
+    return true;
+  }
+
+  /**
+   * Drop the events of a terminal task once late resubscribers had time to
+   * fetch them - the last sequence number is kept to tell them apart
+   */
+  private expireEventLog(taskId: string): void {
+    const timer = setTimeout(() => {
+      const log = this.eventLogs.get(taskId);
+      if (log) {
+        log.events = [];
+      }
+    }, this.eventLogTtlMs);
+    timer.unref?.();
+  }
+
+  /**
+   * Create a task, or resume an existing one waiting in input-required.
+   * Throws InvalidTaskStateError if the task exists in any other state,
+   * SkillNotFoundError if the requested skill has no handler.
+   * The authenticated caller is recorded in metadata.caller.
+   */
+  async createTask(params: TaskSendParams, caller?: string): Promise<Task> {
     const taskId = params.id;
+    const existing = this.store.get(taskId);
+
+    const skillId = getRequestedSkill(params);
+    if (skillId !== undefined && !this.handlers.has(skillId)) {
+      throw new SkillNotFoundError(skillId);
+    }
+
+    if (existing) {
+      if (existing.status.state !== 'input-required') {
+        throw new InvalidTaskStateError(taskId, existing.status.state);
+      }
+      this.assertQueueCapacity(existing.sessionId);
+
+      // Follow-up turns stay on the task's skill unless they name another one
+      if (skillId !== undefined) {
+        existing.metadata = { ...existing.metadata, skillId };
+      }
+      existing.history = [...(existing.history ?? []), params.message];
+      this.store.save(existing);
+      this.emitTaskEvent('message', existing, { message: params.message });
+      // Back in the queue like a new task: deadlines apply while it waits for a slot
+      this.transition(existing, 'submitted', 'Resumed with a new message');
+
+      this.scheduleDeadline(taskId, getDeadline(params.metadata));
+      this.enqueue(existing);
+      return existing;
+    }
+
     const sessionId = params.sessionId || crypto.randomUUID();
+    this.assertQueueCapacity(sessionId);
+
+    // metadata.caller is reserved: only the authentication layer sets it
+    const metadata = { ...params.metadata };
+    delete metadata.caller;
     
     const now = new Date().toISOString();
     
@@ -59,41 +447,162 @@ export class TaskManager extends EventEmitter {
       },
       artifacts: [],
       history: [params.message],
-      metadata: {}
+      stateTransitions: [{ to: 'submitted', timestamp: now }],
+      metadata: {
+        ...metadata,
+        ...(skillId !== undefined ? { skillId } : {}),
+        ...(caller !== undefined ? { caller } : {})
+      }
     };
 
-    this.tasks.set(taskId, task);
-    this.taskOrder.push(taskId);
+    this.store.save(task);
     
     // Emit status event for task creation
     this.emitTaskEvent('status', task);
     
-    this.executeTask(taskId).catch(error => {
-      console.error(`Task execution failed for ${taskId}:`, error);
-    });
+    this.scheduleDeadline(taskId, getDeadline(params.metadata));
+    this.enqueue(task);
     
     return task;
   }
 
+  // ==========================================================================
+  // SCHEDULER
+  // ==========================================================================
+
+  private canStart(sessionId: string): boolean {
+    return this.running < this.limits.maxConcurrent &&
+      (this.runningBySession.get(sessionId) ?? 0) < this.limits.maxPerSession;
+  }
+
+  private assertQueueCapacity(sessionId: string): void {
+    if (!this.canStart(sessionId) && this.queue.length >= this.limits.maxQueueDepth) {
+      throw new QueueFullError(this.limits.maxQueueDepth);
+    }
+  }
+
+  private enqueue(task: Task): void {
+    const entry: QueueEntry = {
+      taskId: task.id,
+      sessionId: task.sessionId,
+      priority: getPriority(task.metadata)
+    };
+
+    // Insert after every entry of the same or higher priority
+    const index = this.queue.findIndex(queued => queued.priority < entry.priority);
+    if (index === -1) {
+      this.queue.push(entry);
+    } else {
+      this.queue.splice(index, 0, entry);
+    }
+
+    this.pump();
+  }
+
+  /**
+   * Start queued tasks while slots are available
+   */
+  private pump(): void {
+    // Starting a task emits events whose listeners may enqueue more tasks
+    if (this.pumping) {
+      return;
+    }
+    this.pumping = true;
+
+    try {
+      let entry: QueueEntry | undefined;
+      while (
+        this.running < this.limits.maxConcurrent &&
+        (entry = this.queue.find(queued => this.canStart(queued.sessionId)))
+      ) {
+        this.queue.splice(this.queue.indexOf(entry), 1);
+        this.runTask(entry);
+      }
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private runTask(entry: QueueEntry): void {
+    this.running++;
+    this.runningBySession.set(entry.sessionId, (this.runningBySession.get(entry.sessionId) ?? 0) + 1);
+
+    this.executeTask(entry.taskId)
+      .catch(error => {
+        console.error(`Task execution failed for ${entry.taskId}:`, error);
+      })
+      .finally(() => {
+        this.running--;
+        const sessionCount = (this.runningBySession.get(entry.sessionId) ?? 1) - 1;
+        if (sessionCount > 0) {
+          this.runningBySession.set(entry.sessionId, sessionCount);
+        } else {
+          this.runningBySession.delete(entry.sessionId);
+        }
+        this.pump();
+      });
+  }
+
+  /**
+   * 1-based position of a task waiting for an execution slot
+   */
+  getQueuePosition(taskId: string): number | undefined {
+    const index = this.queue.findIndex(entry => entry.taskId === taskId);
+    return index === -1 ? undefined : index + 1;
+  }
+
   private async executeTask(taskId: string): Promise<void> {
-    const task = this.tasks.get(taskId);
-    if (!task || !this.handler) {
+    const task = this.store.get(taskId);
+    if (!task) {
       return;
     }
 
-    task.status = {
-      state: 'working',
-      timestamp: new Date().toISOString()
-    };
-    this.emitTaskEvent('status', task);
+    const skillId = typeof task.metadata?.skillId === 'string' ? task.metadata.skillId : undefined;
+    const caller = typeof task.metadata?.caller === 'string' ? task.metadata.caller : undefined;
+    const handler = skillId !== undefined ? this.handlers.get(skillId) : this.handler;
+    if (!handler) {
+      // The skill was unregistered after the task was accepted
+      if (skillId !== undefined && this.transition(task, 'working')) {
+        this.transition(task, 'failed', new SkillNotFoundError(skillId).message);
+      }
+      return;
+    }
+
+    if (!this.transition(task, 'working')) {
+      return;
+    }
+
+    const controller = new AbortController();
+    this.controllers.set(taskId, controller);
+
+    if (this.defaultTimeoutMs !== undefined) {
+      const timeoutMs = this.defaultTimeoutMs;
+      this.addTimer(taskId, timeoutMs, () => this.expireTask(taskId, { reason: 'execution_timeout', timeoutMs }));
+    }
 
     try {
-      const lastMessage = task.history?.[task.history.length - 1];
+      const history = task.history ?? [];
+      const lastMessage = history[history.length - 1];
       if (!lastMessage) {
         throw new Error('No message found in task history');
       }
 
-      const result = await this.handler(lastMessage);
+      const output = handler(lastMessage, {
+        taskId: task.id,
+        sessionId: task.sessionId,
+        history: [...history],
+        ...(skillId !== undefined ? { skillId } : {}),
+        ...(caller !== undefined ? { caller } : {}),
+        signal: controller.signal
+      });
+      const result = isAsyncIterable<TaskHandlerUpdate>(output)
+        ? await this.consumeUpdates(task, output)
+        : await output;
+
+      // Canceled while the handler was running: its output is discarded
+      if (!result || isTerminalState(task.status.state)) {
+        return;
+      }
       
       if (task.history) {
         task.history.push(result.response);
@@ -101,66 +610,197 @@ export class TaskManager extends EventEmitter {
       }
       
       if (result.artifacts) {
-        task.artifacts = result.artifacts;
+        // Stable indexes: events and later chunks refer to artifacts by index
+        task.artifacts = result.artifacts.map((artifact, position) => ({ ...artifact, index: artifact.index ?? position }));
         // Emit artifact events
-        for (const artifact of result.artifacts) {
+        for (const artifact of task.artifacts) {
           this.emitTaskEvent('artifact', task, { artifact });
         }
       }
 
-      task.status = {
-        state: 'completed',
-        timestamp: new Date().toISOString()
-      };
-      this.emitTaskEvent('status', task);
+      this.transition(task, result.inputRequired ? 'input-required' : 'completed');
     } catch (error) {
-      task.status = {
-        state: 'failed',
-        timestamp: new Date().toISOString(),
-        message: error instanceof Error ? error.message : 'Unknown error'
-      };
-      this.emitTaskEvent('status', task);
+      if (isTerminalState(task.status.state)) {
+        return;
+      }
+      this.transition(task, 'failed', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      this.controllers.delete(taskId);
+    }
+  }
+
+  // ==========================================================================
+  // STREAMING HANDLERS
+  // ==========================================================================
+
+  /**
+   * Apply the updates of a streaming handler as they arrive.
+   * Returns null if the task reached a terminal state meanwhile.
+   */
+  private async consumeUpdates(task: Task, updates: AsyncIterable<TaskHandlerUpdate>): Promise<TaskHandlerResult | null> {
+    let text = '';
+    let final: Extract<TaskHandlerUpdate, { type: 'result' }> | undefined;
+
+    for await (const update of updates) {
+      // Leaving the loop calls return() on the iterator, stopping the handler
+      if (isTerminalState(task.status.state)) {
+        return null;
+      }
+
+      switch (update.type) {
+        case 'text':
+          text += update.text;
+          this.emitTaskEvent('message', task, {
+            message: { role: 'agent', parts: [{ type: 'text', text: update.text }], metadata: { partial: true } }
+          });
+          break;
+        case 'status':
+          task.status = {
+            state: task.status.state,
+            timestamp: new Date().toISOString(),
+            message: update.message
+          };
+          this.store.save(task);
+          this.emitTaskEvent('status', task);
+          break;
+        case 'artifact':
+          this.applyArtifactChunk(task, update.artifact);
+          break;
+        case 'result':
+          final = update;
+          break;
+      }
+    }
+
+    if (isTerminalState(task.status.state)) {
+      return null;
+    }
+
+    return {
+      response: final?.response ?? { role: 'agent', parts: text ? [{ type: 'text', text }] : [] },
+      ...(final?.inputRequired ? { inputRequired: true } : {})
+    };
+  }
+
+  /**
+   * Merge an artifact chunk into the task: append chunks extend the artifact
+   * with the same index, other chunks add or replace it
+   */
+  private applyArtifactChunk(task: Task, chunk: Artifact): void {
+    const index = chunk.index ?? task.artifacts.length;
+    const position = task.artifacts.findIndex((artifact, i) => (artifact.index ?? i) === index);
+    const existing = position === -1 ? undefined : task.artifacts[position];
+    const { append, ...artifact } = chunk;
+
+    if (append && existing) {
+      existing.parts.push(...chunk.parts);
+      if (chunk.lastChunk !== undefined) {
+        existing.lastChunk = chunk.lastChunk;
+      }
+    } else if (existing) {
+      task.artifacts[position] = { ...artifact, parts: [...chunk.parts], index };
+    } else {
+      task.artifacts.push({ ...artifact, parts: [...chunk.parts], index });
+    }
+
+    this.store.save(task);
+    this.emitTaskEvent('artifact', task, { artifact: { ...chunk, index } });
+  }
+
+  // ==========================================================================
+  // DEADLINES
+  // ==========================================================================
+
+  private addTimer(taskId: string, delayMs: number, callback: () => void): void {
+    const timer = setTimeout(callback, Math.max(0, delayMs));
+    // Never keep the gateway process alive just for a deadline
+    timer.unref?.();
+    this.timers.set(taskId, [...(this.timers.get(taskId) ?? []), timer]);
+  }
+
+  private clearTimers(taskId: string): void {
+    for (const timer of this.timers.get(taskId) ?? []) {
+      clearTimeout(timer);
+    }
+    this.timers.delete(taskId);
+  }
+
+  private scheduleDeadline(taskId: string, deadline: number | undefined): void {
+    if (deadline === undefined) {
+      return;
     }
+    this.addTimer(taskId, deadline - Date.now(), () => {
+      this.expireTask(taskId, { reason: 'deadline', deadline: new Date(deadline).toISOString() });
+    });
+  }
+
+  /**
+   * Fail a queued or running task whose deadline has passed.
+   * The timeout details are recorded in metadata.error.
+   */
+  private expireTask(
+    taskId: string,
+    details: { reason: 'deadline'; deadline: string } | { reason: 'execution_timeout'; timeoutMs: number }
+  ): void {
+    const task = this.store.get(taskId);
+    if (!task || isTerminalState(task.status.state) || task.status.state === 'input-required') {
+      return;
+    }
+
+    const queued = this.getQueuePosition(taskId) !== undefined;
+    this.queue = this.queue.filter(entry => entry.taskId !== taskId);
+
+    task.metadata = {
+      ...task.metadata,
+      error: { type: 'timeout', phase: queued ? 'queued' : 'working', ...details }
+    };
+    this.transition(
+      task,
+      'failed',
+      details.reason === 'deadline' ? 'Task deadline exceeded' : `Task execution timed out after ${details.timeoutMs}ms`
+    );
+    this.controllers.get(taskId)?.abort(new Error('Task timed out'));
   }
 
   getTask(taskId: string): Task | undefined {
-    return this.tasks.get(taskId);
+    return this.store.get(taskId);
   }
 
   cancelTask(taskId: string): { success: true } | { success: false; reason: 'not_found' | 'terminal_state'; state?: TaskState } {
-    const task = this.tasks.get(taskId);
+    const task = this.store.get(taskId);
     
     if (!task) {
       return { success: false, reason: 'not_found' };
     }
 
-    if (task.status.state === 'completed' || task.status.state === 'failed' || task.status.state === 'canceled') {
+    if (isTerminalState(task.status.state)) {
       return { success: false, reason: 'terminal_state', state: task.status.state };
     }
 
-    task.status = {
-      state: 'canceled',
-      timestamp: new Date().toISOString()
-    };
-    this.emitTaskEvent('status', task);
+    this.transition(task, 'canceled');
+    this.queue = this.queue.filter(entry => entry.taskId !== taskId);
+    this.controllers.get(taskId)?.abort(new Error('Task canceled'));
 
     return { success: true };
   }
 
   getAllTasks(): Task[] {
-    return Array.from(this.tasks.values());
+    return Array.from(this.store.values());
   }
 
   /**
    * List tasks with pagination and optional state filter
    */
-  listTasks(params: TaskListParams = { limit: 50 }): TaskListResult {
+  listTasks(params: TaskListParams = { limit: 50 }, owner?: string): TaskListResult {
     const { limit = 50, cursor, state } = params;
+    // Restricted to the tasks created by owner (metadata.caller) when set
+    const ordered = Array.from(this.store.values())
+      .filter(task => owner === undefined || task.metadata?.caller === owner);
     
     // Find starting index
     let startIndex = 0;
     if (cursor) {
-      const cursorIndex = this.taskOrder.indexOf(cursor);
+      const cursorIndex = ordered.findIndex(task => task.id === cursor);
       if (cursorIndex !== -1) {
         startIndex = cursorIndex + 1;
       }
@@ -168,24 +808,21 @@ export class TaskManager extends EventEmitter {
 
     // Collect tasks with optional state filter
     const tasks: Task[] = [];
+    let lastTaskIndex = -1;
 
-    for (let i = startIndex; i < this.taskOrder.length && tasks.length < limit; i++) {
-      const taskId = this.taskOrder[i];
-      if (!taskId) continue;
+    for (let i = startIndex; i < ordered.length && tasks.length < limit; i++) {
+      const task = ordered[i];
+      if (!task) continue;
       
-      const task = this.tasks.get(taskId);
-      if (task) {
-        if (!state || task.status.state === state) {
-          tasks.push(task);
-        }
+      if (!state || task.status.state === state) {
+        tasks.push(task);
+        lastTaskIndex = i;
       }
     }
 
     // Check if there are more
-    const lastTask = tasks[tasks.length - 1];
-    const lastTaskId = lastTask?.id;
-    const lastTaskIndex = lastTaskId ? this.taskOrder.indexOf(lastTaskId) : -1;
-    const hasMore = lastTaskIndex >= 0 && lastTaskIndex < this.taskOrder.length - 1;
+    const lastTaskId = tasks[tasks.length - 1]?.id;
+    const hasMore = lastTaskIndex >= 0 && lastTaskIndex < ordered.length - 1;
 
     const result: TaskListResult = {
       tasks,
@@ -199,19 +836,59 @@ export class TaskManager extends EventEmitter {
     return result;
   }
 
-  cleanup(maxAgeMs: number = 24 * 60 * 60 * 1000): void {
-    const cutoff = Date.now() - maxAgeMs;
-    
-    for (const [id, task] of this.tasks) {
-      const taskTime = new Date(task.status.timestamp).getTime();
-      if (taskTime < cutoff) {
-        this.tasks.delete(id);
-        const orderIndex = this.taskOrder.indexOf(id);
-        if (orderIndex !== -1) {
-          this.taskOrder.splice(orderIndex, 1);
+  /**
+   * Evict terminal tasks according to a retention policy, in a single pass
+   * over the store. Non-terminal tasks are never evicted.
+   */
+  applyRetention(policy: RetentionPolicy): RetentionStats {
+    const startedAt = Date.now();
+    const tasks = Array.from(this.store.values());
+    const keptTerminal: Task[] = []; // Insertion order, oldest first
+    let evictedByAge = 0;
+    let evictedByCapacity = 0;
+
+    for (const task of tasks) {
+      const state = task.status.state;
+      if (!isTerminalState(state)) {
+        continue;
+      }
+
+      const maxAgeMs = policy.maxAgeMs?.[state as TerminalTaskState];
+      if (maxAgeMs !== undefined && startedAt - new Date(task.status.timestamp).getTime() > maxAgeMs) {
+        this.evict(task.id);
+        evictedByAge++;
+      } else {
+        keptTerminal.push(task);
+      }
+    }
+
+    let remaining = tasks.length - evictedByAge;
+    if (policy.maxTasks !== undefined) {
+      for (const task of keptTerminal) {
+        if (remaining <= policy.maxTasks) {
+          break;
         }
+        this.evict(task.id);
+        evictedByCapacity++;
+        remaining--;
       }
     }
+
+    return {
+      evictedByAge,
+      evictedByCapacity,
+      remaining,
+      durationMs: Date.now() - startedAt
+    };
+  }
+
+  /**
+   * Remove terminal tasks older than maxAgeMs
+   */
+  cleanup(maxAgeMs: number = 24 * 60 * 60 * 1000): void {
+    this.applyRetention({
+      maxAgeMs: { completed: maxAgeMs, failed: maxAgeMs, canceled: maxAgeMs }
+    });
   }
 }
 
@@ -0,0 +1,184 @@
+/**
+ * Task Store
+ *
+ * Persistance des tâches A2A :
+ * - InMemoryTaskStore : stockage en mémoire (par défaut, perdu au redémarrage)
+ * - FileTaskStore : journal JSON append-only avec compaction
+ *
+ * Le TaskManager mute les tâches en place puis appelle save() ; les stores
+ * conservent l'ordre d'insertion pour la pagination de tasks/list.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Task } from './models.js';
+
+export interface TaskStore {
+  get(taskId: string): Task | undefined;
+  save(task: Task): void;
+  delete(taskId: string): void;
+  /** All tasks, in insertion order */
+  values(): IterableIterator<Task>;
+  readonly size: number;
+}
+
+export interface TaskStoreConfig {
+  type?: 'memory' | 'file';
+  path?: string;
+  compactThreshold?: number;
+}
+
+// ============================================================================
+// IN-MEMORY STORE
+// ============================================================================
+
+export class InMemoryTaskStore implements TaskStore {
+  // Map preserves insertion order, re-saving a task keeps its position
+  private tasks = new Map<string, Task>();
+
+  get(taskId: string): Task | undefined {
+    return this.tasks.get(taskId);
+  }
+
+  save(task: Task): void {
+    this.tasks.set(task.id, task);
+  }
+
+  delete(taskId: string): void {
+    this.tasks.delete(taskId);
+  }
+
+  values(): IterableIterator<Task> {
+    return this.tasks.values();
+  }
+
+  get size(): number {
+    return this.tasks.size;
+  }
+}
+
+// ============================================================================
+// FILE STORE (append-only JSON log)
+// ============================================================================
+
+type LogEntry =
+  | { op: 'put'; task: Task }
+  | { op: 'delete'; id: string };
+
+export interface FileTaskStoreOptions {
+  path: string;
+  /** Minimum number of log entries before compaction is considered */
+  compactThreshold?: number;
+}
+
+/**
+ * Each save() appends a full task snapshot, each delete() a tombstone.
+ * The log is rewritten once it holds more than twice the live tasks.
+ */
+export class FileTaskStore implements TaskStore {
+  private tasks = new Map<string, Task>();
+  private filePath: string;
+  private compactThreshold: number;
+  private logEntries = 0;
+
+  constructor(options: FileTaskStoreOptions) {
+    this.filePath = options.path;
+    this.compactThreshold = options.compactThreshold ?? 1000;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    this.load();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const content = fs.readFileSync(this.filePath, 'utf8');
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      let entry: LogEntry;
+      try {
+        entry = JSON.parse(line) as LogEntry;
+      } catch {
+        // Partial line from an interrupted write - skip it
+        continue;
+      }
+
+      if (entry.op === 'put') {
+        this.tasks.set(entry.task.id, entry.task);
+      } else if (entry.op === 'delete') {
+        this.tasks.delete(entry.id);
+      }
+      this.logEntries++;
+    }
+  }
+
+  private append(entry: LogEntry): void {
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+    this.logEntries++;
+
+    if (this.logEntries >= this.compactThreshold && this.logEntries > this.tasks.size * 2) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Rewrite the log with one entry per live task
+   */
+  compact(): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    const lines = Array.from(this.tasks.values())
+      .map(task => JSON.stringify({ op: 'put', task } satisfies LogEntry) + '\n');
+
+    fs.writeFileSync(tmpPath, lines.join(''));
+    fs.renameSync(tmpPath, this.filePath);
+    this.logEntries = lines.length;
+  }
+
+  get(taskId: string): Task | undefined {
+    return this.tasks.get(taskId);
+  }
+
+  save(task: Task): void {
+    this.tasks.set(task.id, task);
+    this.append({ op: 'put', task });
+  }
+
+  delete(taskId: string): void {
+    if (!this.tasks.delete(taskId)) {
+      return;
+    }
+    this.append({ op: 'delete', id: taskId });
+  }
+
+  values(): IterableIterator<Task> {
+    return this.tasks.values();
+  }
+
+  get size(): number {
+    return this.tasks.size;
+  }
+}
+
+/**
+ * Create the store configured for an agent. A namespace (agent id) keeps the
+ * tasks of each agent in its own file next to the configured one.
+ */
+export function createTaskStore(config: TaskStoreConfig = {}, namespace?: string): TaskStore {
+  if (config.type === 'file') {
+    const filePath = config.path || path.join(os.homedir(), '.openclaw', 'a2a', 'tasks.jsonl');
+    const extension = path.extname(filePath);
+    const options: FileTaskStoreOptions = {
+      path: namespace
+        ? `${filePath.slice(0, filePath.length - extension.length)}-${namespace}${extension}`
+        : filePath
+    };
+    if (config.compactThreshold !== undefined) {
+      options.compactThreshold = config.compactThreshold;
+    }
+    return new FileTaskStore(options);
+  }
+  return new InMemoryTaskStore();
+}
@@ -0,0 +1,205 @@
+/**
+ * Token Providers
+ *
+ * Tokens présentés par A2AClient aux agents distants :
+ * - Abstraction TokenProvider (token statique, OAuth2, ...)
+ * - OAuth2 client credentials avec cache et renouvellement avant expiration
+ * - Configuration depuis le champ `authentication` de l'AgentCard distante
+ */
+
+import type { AgentAuthentication } from './models.js';
+
+export interface TokenProvider {
+  /** Token sent as `Authorization: Bearer` - cached by the provider */
+  getToken(): Promise<string>;
+  /** Drop the cached token, after the remote agent rejected it */
+  invalidate?(): void;
+  /** Adopt the requirements advertised by the AgentCard of the agent at agentUrl */
+  configure?(authentication: AgentAuthentication | undefined, agentUrl?: string): void;
+}
+
+type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface ClientCredentialsOptions {
+  clientId: string;
+  clientSecret: string;
+  /** Token endpoint - may instead come from the AgentCard (see configure) */
+  tokenUrl?: string;
+  /** Hosts, besides the agent's own origin, whose advertised token endpoint is adopted */
+  trustedTokenHosts?: string[];
+  /** Requested scopes, space-separated */
+  scope?: string;
+  audience?: string;
+  /** Client authentication: HTTP Basic header or form fields (default: basic) */
+  authMethod?: 'basic' | 'body';
+  /** Seconds before expiry at which the token is renewed (default: 60) */
+  refreshSkewSec?: number;
+  /** Token request timeout (default: 10000) */
+  timeoutMs?: number;
+}
+
+interface TokenResponse {
+  access_token?: string;
+  token_type?: string;
+  expires_in?: number;
+}
+
+/**
+ * A fixed token, as with the `authToken` client option
+ */
+export class StaticTokenProvider implements TokenProvider {
+  constructor(private token: string) {}
+
+  async getToken(): Promise<string> {
+    return this.token;
+  }
+}
+
+/**
+ * OAuth2 client credentials grant (RFC 6749 section 4.4)
+ */
+export class ClientCredentialsTokenProvider implements TokenProvider {
+  private tokenUrl: string | undefined;
+  private scope: string | undefined;
+  private token: { value: string; expiresAt: number } | undefined;
+  private pending: Promise<string> | undefined;
+
+  constructor(
+    private options: ClientCredentialsOptions,
+    private fetchImpl: FetchLike = (url, init) => fetch(url, init)
+  ) {
+    this.tokenUrl = options.tokenUrl;
+    this.scope = options.scope;
+  }
+
+  async getToken(): Promise<string> {
+    if (this.token && Date.now() < this.token.expiresAt) {
+      return this.token.value;
+    }
+    // Concurrent calls share one token request
+    if (!this.pending) {
+      this.pending = this.requestToken().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return this.pending;
+  }
+
+  invalidate(): void {
+    this.token = undefined;
+  }
+
+  /**
+   * The card's `credentials` may hold the token endpoint, either as a URL or
+   * as JSON `{ "tokenUrl": "...", "scopes": [...] }`. Explicit options win.
+   * The client secret goes to that endpoint: it is only adopted over https,
+   * on the agent's origin or a host of trustedTokenHosts.
+   */
+  configure(authentication: AgentAuthentication | undefined, agentUrl?: string): void {
+    if (!authentication) {
+      return;
+    }
+    if (!authentication.schemes.includes('OAuth2') && !authentication.schemes.includes('Bearer')) {
+      throw new Error(`Remote agent does not accept bearer tokens (schemes: ${authentication.schemes.join(', ')})`);
+    }
+
+    const credentials = authentication.credentials?.trim();
+    if (!credentials) {
+      return;
+    }
+
+    let advertised: { tokenUrl?: unknown; scopes?: unknown } = {};
+    if (credentials.startsWith('{')) {
+      try {
+        advertised = JSON.parse(credentials) as typeof advertised;
+      } catch {
+        // Not JSON: nothing to adopt
+      }
+    } else if (/^https?:\/\//.test(credentials)) {
+      advertised = { tokenUrl: credentials };
+    }
+
+    if (this.tokenUrl === undefined && typeof advertised.tokenUrl === 'string') {
+      if (!this.isTrustedTokenUrl(advertised.tokenUrl, agentUrl)) {
+        throw new Error(`Advertised token URL ${advertised.tokenUrl} is not trusted: set tokenUrl or trustedTokenHosts`);
+      }
+      this.tokenUrl = advertised.tokenUrl;
+    }
+    if (this.scope === undefined && Array.isArray(advertised.scopes)) {
+      this.scope = advertised.scopes.filter(s => typeof s === 'string').join(' ');
+    }
+  }
+
+  private isTrustedTokenUrl(tokenUrl: string, agentUrl: string | undefined): boolean {
+    let url: URL;
+    try {
+      url = new URL(tokenUrl);
+    } catch {
+      return false;
+    }
+    if (url.protocol !== 'https:') {
+      return false;
+    }
+    if (agentUrl !== undefined && URL.canParse(agentUrl) && new URL(agentUrl).origin === url.origin) {
+      return true;
+    }
+    return (this.options.trustedTokenHosts ?? []).some(host => host.toLowerCase() === url.hostname);
+  }
+
+  private async requestToken(): Promise<string> {
+    if (!this.tokenUrl) {
+      throw new Error('OAuth2 token URL is not configured');
+    }
+
+    const { clientId, clientSecret, audience, authMethod = 'basic' } = this.options;
+    const body = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (this.scope) {
+      body.set('scope', this.scope);
+    }
+    if (audience) {
+      body.set('audience', audience);
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json'
+    };
+    if (authMethod === 'basic') {
+      const basic = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+      headers['Authorization'] = `Basic ${Buffer.from(basic).toString('base64')}`;
+    } else {
+      body.set('client_id', clientId);
+      body.set('client_secret', clientSecret);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.options.timeoutMs ?? 10000);
+    try {
+      const response = await this.fetchImpl(this.tokenUrl, {
+        method: 'POST',
+        headers,
+        body: body.toString(),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`Token request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const token = await response.json() as TokenResponse;
+      if (!token.access_token) {
+        throw new Error('Token response missing access_token');
+      }
+
+      // Without expires_in the token is kept until the remote agent rejects it
+      const skewMs = (this.options.refreshSkewSec ?? 60) * 1000;
+      const expiresAt = typeof token.expires_in === 'number'
+        ? Date.now() + Math.max(token.expires_in * 1000 - skewMs, 0)
+        : Infinity;
+      this.token = { value: token.access_token, expiresAt };
+      return token.access_token;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
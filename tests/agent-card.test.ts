@@ -0,0 +1,117 @@
+/**
+ * Unit tests for AgentCard generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildAgentCard, pickCardConfig, validateAgentCardConfig, visibleSkills } from '../src/agent-card.js';
+import { AgentCardSchema } from '../src/models.js';
+import { PROTOCOL_VERSION } from '../src/protocol-adapter.js';
+
+const input = {
+  name: 'Research Agent',
+  description: 'Finds and summarizes papers',
+  url: 'https://gateway.example.com/a2a',
+  capabilities: { streaming: true, pushNotifications: false, stateTransitionHistory: true },
+  skills: [{
+    id: 'summarize',
+    name: 'Summarize',
+    description: 'Summarizes a paper',
+    tags: ['papers', 'summary'],
+    examples: ['Summarize arXiv:2401.00001'],
+    inputModes: ['text', 'application/pdf']
+  }]
+};
+
+describe('buildAgentCard', () => {
+  it('should publish the full skill metadata and card settings', () => {
+    const card = buildAgentCard(
+      { ...input, authentication: { schemes: ['Bearer'] } },
+      {
+        version: '2.1.0',
+        provider: { organization: 'Example Labs', url: 'https://example.com' },
+        documentationUrl: 'https://example.com/docs',
+        iconUrl: 'https://example.com/icon.png',
+        defaultOutputModes: ['text', 'application/json']
+      }
+    );
+
+    expect(card).toEqual({
+      name: 'Research Agent',
+      description: 'Finds and summarizes papers',
+      url: 'https://gateway.example.com/a2a',
+      provider: { organization: 'Example Labs', url: 'https://example.com' },
+      version: '2.1.0',
+      documentationUrl: 'https://example.com/docs',
+      iconUrl: 'https://example.com/icon.png',
+      capabilities: input.capabilities,
+      authentication: { schemes: ['Bearer'] },
+      protocolVersion: PROTOCOL_VERSION,
+      defaultInputModes: ['text'],
+      defaultOutputModes: ['text', 'application/json'],
+      skills: input.skills
+    });
+    expect(AgentCardSchema.safeParse(card).success).toBe(true);
+  });
+
+  it('should fall back to defaults without card settings', () => {
+    const card = buildAgentCard({ ...input, skills: [{ id: 'chat', name: 'Chat', description: 'Chats' }] });
+
+    expect(card.version).toBe('1.0.0');
+    expect(card.defaultInputModes).toEqual(['text']);
+    expect(card.skills).toEqual([{ id: 'chat', name: 'Chat', description: 'Chats' }]);
+    expect(card).not.toHaveProperty('provider');
+    expect(card).not.toHaveProperty('authentication');
+  });
+});
+
+describe('validateAgentCardConfig', () => {
+  it('should accept a complete configuration', () => {
+    expect(validateAgentCardConfig({
+      version: '2.1.0',
+      provider: { organization: 'Example Labs' },
+      documentationUrl: 'https://example.com/docs',
+      skills: input.skills
+    })).toBeUndefined();
+  });
+
+  it('should report the first problem', () => {
+    expect(validateAgentCardConfig({ documentationUrl: 'not a url' })).toMatch(/^documentationUrl: /);
+    expect(validateAgentCardConfig({ skills: [{ id: 'chat', description: 'Chats' }] })).toMatch(/^skills\.0\.name: /);
+    expect(validateAgentCardConfig({ defaultInputModes: [] })).toMatch(/^defaultInputModes: /);
+    expect(validateAgentCardConfig({
+      skills: [
+        { id: 'chat', name: 'Chat', description: 'Chats' },
+        { id: 'chat', name: 'Chat again', description: 'Chats too' }
+      ]
+    })).toBe('skills: duplicate skill id "chat"');
+  });
+});
+
+describe('visibleSkills', () => {
+  const skills = [
+    { id: 'chat', name: 'Chat', description: 'Chats' },
+    { id: 'refunds', name: 'Refunds', description: 'Issues refunds', visibility: 'private' as const },
+    { id: 'audit', name: 'Audit', description: 'Audits', visibility: 'private' as const, scopes: ['read' as const, 'cancel' as const] }
+  ];
+  const ids = (caller?: { name: string; scopes: Array<'send' | 'read' | 'cancel' | 'admin'> }) =>
+    visibleSkills(skills, caller).map(skill => skill.id);
+
+  it('should only list public skills without a caller', () => {
+    expect(ids()).toEqual(['chat']);
+  });
+
+  it('should list the private skills the caller has every scope of', () => {
+    expect(ids({ name: 'reader', scopes: ['read'] })).toEqual(['chat']);
+    expect(ids({ name: 'sender', scopes: ['send'] })).toEqual(['chat', 'refunds']);
+    expect(ids({ name: 'auditor', scopes: ['read', 'cancel'] })).toEqual(['chat', 'audit']);
+    expect(ids({ name: 'ops', scopes: ['admin'] })).toEqual(['chat', 'refunds', 'audit']);
+  });
+});
+
+describe('pickCardConfig', () => {
+  it('should keep only the defined card settings', () => {
+    const config = { version: '1.2.3', iconUrl: undefined, name: 'Agent', port: 18789 };
+
+    expect(pickCardConfig(config)).toEqual({ version: '1.2.3' });
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Unit tests for authentication
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Authenticator, extractToken, hasScope } from '../src/auth.js';
+
+describe('Authenticator', () => {
+  const authenticator = new Authenticator([
+    { name: 'orchestrator', token: 'orchestrator-token', scopes: ['send', 'read'] },
+    { name: 'ops', token: 'ops-token', scopes: ['admin'] },
+    { name: 'reader', token: 'reader-token' }
+  ]);
+
+  it('should accept Bearer and X-API-Key tokens', () => {
+    expect(extractToken({ authorization: 'Bearer abc' })).toBe('abc');
+    expect(extractToken({ 'x-api-key': 'def' })).toBe('def');
+    expect(extractToken({ authorization: 'Basic abc' })).toBeUndefined();
+
+    const result = authenticator.authenticate({ 'x-api-key': 'orchestrator-token' });
+    expect(result).toEqual({ success: true, caller: { name: 'orchestrator', scopes: ['send', 'read'] } });
+  });
+
+  it('should reject missing and unknown tokens', () => {
+    expect(authenticator.authenticate({})).toEqual({ success: false, reason: 'missing_credentials' });
+    expect(authenticator.authenticate({ authorization: 'Bearer orchestrator-tokenX' }))
+      .toEqual({ success: false, reason: 'invalid_credentials' });
+  });
+
+  it('should resolve scopes, admin granting all of them', () => {
+    const reader = authenticator.authenticate({ authorization: 'Bearer reader-token' });
+    const ops = authenticator.authenticate({ authorization: 'Bearer ops-token' });
+
+    expect(reader.success && reader.caller && hasScope(reader.caller, 'cancel')).toBe(true);
+    expect(reader.success && reader.caller && hasScope(reader.caller, 'admin')).toBe(false);
+    expect(ops.success && ops.caller && hasScope(ops.caller, 'cancel')).toBe(true);
+  });
+
+  it('should accept anonymous requests when no credential is configured', () => {
+    expect(new Authenticator().authenticate({})).toEqual({ success: true });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for AgentCard signing
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { generateKeyPairSync, type KeyObject } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { canonicalize, CardSigner, CardVerifier } from '../src/card-signing.js';
+import type { AgentCard } from '../src/models.js';
+
+const card: AgentCard = {
+  name: 'Signed Agent',
+  description: 'Publishes a signed card',
+  url: 'https://gateway.example.com/a2a',
+  version: '1.0.0',
+  capabilities: { streaming: true, pushNotifications: false, stateTransitionHistory: true },
+  defaultInputModes: ['text'],
+  defaultOutputModes: ['text'],
+  skills: [{ id: 'chat', name: 'Chat', description: 'Chats' }]
+};
+
+const pem = (key: KeyObject, type: 'pkcs8' | 'spki') => key.export({ type, format: 'pem' }).toString();
+
+describe('canonicalize', () => {
+  it('should sort keys at every level and drop undefined members', () => {
+    expect(canonicalize({ b: 1, a: { d: [true, undefined], c: 'x' }, e: undefined }))
+      .toBe('{"a":{"c":"x","d":[true,null]},"b":1}');
+  });
+});
+
+describe('CardSigner and CardVerifier', () => {
+  const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  it('should sign with ES256 and verify against a pinned key', () => {
+    const signed = new CardSigner({ privateKey: pem(ec.privateKey, 'pkcs8') }).sign(card);
+    const header = JSON.parse(Buffer.from(signed.signatures![0]!.protected, 'base64url').toString());
+
+    expect(header).toEqual({ alg: 'ES256', typ: 'JOSE' });
+    expect(new CardVerifier({ publicKeys: [pem(ec.publicKey, 'spki')] }).verify(signed)).toEqual({ verified: true });
+  });
+
+  it('should not depend on the order of the card members', () => {
+    const signed = new CardSigner({ privateKey: pem(rsa.privateKey, 'pkcs8') }).sign(card);
+    const { name, skills, ...rest } = signed;
+    const reordered = { skills, ...rest, name } as AgentCard;
+
+    expect(new CardVerifier({ publicKeys: [pem(rsa.publicKey, 'spki')] }).verify(reordered).verified).toBe(true);
+  });
+
+  it('should reject unsigned, tampered and foreign cards', () => {
+    const verifier = new CardVerifier({ publicKeys: [pem(ec.publicKey, 'spki')] });
+    const signed = new CardSigner({ privateKey: pem(ec.privateKey, 'pkcs8') }).sign(card);
+
+    expect(verifier.verify(card)).toEqual({ verified: false, reason: 'unsigned' });
+    expect(verifier.verify({ ...signed, url: 'https://attacker.example.com/a2a' }))
+      .toEqual({ verified: false, reason: 'invalid_signature' });
+
+    const foreign = new CardSigner({ privateKey: pem(rsa.privateKey, 'pkcs8') }).sign(card);
+    expect(verifier.verify(foreign)).toEqual({ verified: false, reason: 'invalid_signature' });
+  });
+
+  it('should refuse keys it cannot sign with', () => {
+    expect(() => new CardSigner({})).toThrow('privateKey or privateKeyPath');
+    const ed = generateKeyPairSync('ed25519');
+    expect(() => new CardSigner({ privateKey: pem(ed.privateKey, 'pkcs8') })).toThrow('RSA key or an EC key on P-256');
+  });
+
+  describe('with a trust file', () => {
+    let dir: string;
+    let trustFile: string;
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'a2a-card-'));
+      trustFile = path.join(dir, 'trusted.json');
+      fs.writeFileSync(trustFile, JSON.stringify({
+        keys: [
+          { ...ec.publicKey.export({ format: 'jwk' }), kid: 'card-2026' },
+          { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'other' }
+        ]
+      }));
+    });
+
+    afterAll(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should pick the trusted key named by kid', () => {
+      const verifier = new CardVerifier({ trustFile });
+      const signed = new CardSigner({ privateKey: pem(ec.privateKey, 'pkcs8'), keyId: 'card-2026' }).sign(card);
+
+      expect(verifier.verify(signed)).toEqual({ verified: true, keyId: 'card-2026' });
+
+      const mislabeled = new CardSigner({ privateKey: pem(ec.privateKey, 'pkcs8'), keyId: 'other' }).sign(card);
+      expect(verifier.verify(mislabeled).verified).toBe(false);
+    });
+  });
+});
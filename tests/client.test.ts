@@ -0,0 +1,211 @@
+/**
+ * Unit tests for the A2A client and token providers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import { A2AClient } from '../src/client.js';
+import { ClientCredentialsTokenProvider } from '../src/token-provider.js';
+import { CardSigner, CardVerificationError } from '../src/card-signing.js';
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+const task = {
+  id: 'task-1',
+  status: { state: 'completed', timestamp: '2026-01-01T00:00:00.000Z' }
+};
+
+describe('ClientCredentialsTokenProvider', () => {
+  let tokenRequests: Array<{ url: string; init: RequestInit }>;
+  let expiresIn: number | undefined;
+
+  const tokenFetch = async (url: string, init: RequestInit) => {
+    tokenRequests.push({ url, init });
+    return json({ access_token: `token-${tokenRequests.length}`, token_type: 'Bearer', expires_in: expiresIn });
+  };
+
+  beforeEach(() => {
+    tokenRequests = [];
+    expiresIn = 3600;
+  });
+
+  it('should request a token with the client credentials grant and cache it', async () => {
+    const provider = new ClientCredentialsTokenProvider(
+      { tokenUrl: 'https://idp.example.com/token', clientId: 'agent', clientSecret: 's3cret', scope: 'a2a' },
+      tokenFetch
+    );
+
+    const [first, second] = await Promise.all([provider.getToken(), provider.getToken()]);
+    expect(first).toBe('token-1');
+    expect(second).toBe('token-1');
+    expect(tokenRequests).toHaveLength(1);
+
+    const { url, init } = tokenRequests[0];
+    expect(url).toBe('https://idp.example.com/token');
+    expect(init.body).toBe('grant_type=client_credentials&scope=a2a');
+    expect((init.headers as Record<string, string>)['Authorization'])
+      .toBe(`Basic ${Buffer.from('agent:s3cret').toString('base64')}`);
+  });
+
+  it('should renew the token before it expires and after invalidate', async () => {
+    expiresIn = 30;
+    const provider = new ClientCredentialsTokenProvider(
+      { tokenUrl: 'https://idp.example.com/token', clientId: 'agent', clientSecret: 's3cret', refreshSkewSec: 60 },
+      tokenFetch
+    );
+
+    expect(await provider.getToken()).toBe('token-1');
+    // Already within the refresh window
+    expect(await provider.getToken()).toBe('token-2');
+
+    expiresIn = 3600;
+    expect(await provider.getToken()).toBe('token-3');
+    provider.invalidate();
+    expect(await provider.getToken()).toBe('token-4');
+  });
+
+  it('should read the token endpoint from the AgentCard', async () => {
+    const provider = new ClientCredentialsTokenProvider({ clientId: 'agent', clientSecret: 's3cret' }, tokenFetch);
+
+    await expect(provider.getToken()).rejects.toThrow('OAuth2 token URL is not configured');
+
+    provider.configure({
+      schemes: ['OAuth2'],
+      credentials: JSON.stringify({ tokenUrl: 'https://agent.example.com/oauth/token', scopes: ['send', 'read'] })
+    }, 'https://agent.example.com');
+    await provider.getToken();
+
+    expect(tokenRequests[0].url).toBe('https://agent.example.com/oauth/token');
+    expect(tokenRequests[0].init.body).toBe('grant_type=client_credentials&scope=send+read');
+    expect(() => provider.configure({ schemes: ['ApiKey'] })).toThrow('does not accept bearer tokens');
+  });
+
+  it('should only adopt an https token endpoint on the agent origin or a trusted host', () => {
+    const agentUrl = 'https://agent.example.com';
+    const configure = (credentials: string, trustedTokenHosts?: string[]) =>
+      new ClientCredentialsTokenProvider({ clientId: 'agent', clientSecret: 's3cret', ...(trustedTokenHosts ? { trustedTokenHosts } : {}) }, tokenFetch)
+        .configure({ schemes: ['OAuth2'], credentials }, agentUrl);
+
+    expect(() => configure('http://agent.example.com/oauth/token')).toThrow('is not trusted');
+    expect(() => configure('https://attacker.example.net/token')).toThrow('is not trusted');
+    expect(() => configure('https://agent.example.com:8443/token')).toThrow('is not trusted');
+    expect(() => configure('https://idp.example.com/token')).toThrow('set tokenUrl or trustedTokenHosts');
+    expect(() => configure('https://idp.example.com/token', ['idp.example.com'])).not.toThrow();
+    expect(() => configure('http://idp.example.com/token', ['idp.example.com'])).toThrow('is not trusted');
+
+    // An explicit tokenUrl is never replaced
+    const explicit = new ClientCredentialsTokenProvider(
+      { tokenUrl: 'https://idp.example.com/token', clientId: 'agent', clientSecret: 's3cret' },
+      tokenFetch
+    );
+    expect(() => explicit.configure({ schemes: ['OAuth2'], credentials: 'http://attacker.example.net/token' }, agentUrl)).not.toThrow();
+  });
+});
+
+describe('A2AClient', () => {
+  let calls: Array<{ url: string; init: RequestInit }>;
+  let responses: Response[];
+
+  beforeEach(() => {
+    calls = [];
+    responses = [];
+    vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+      calls.push({ url, init });
+      return responses.shift() ?? json({ jsonrpc: '2.0', result: task, id: '1' });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const authorization = (index: number) =>
+    (calls[index].init.headers as Record<string, string>)['Authorization'];
+
+  it('should send the static token', async () => {
+    const client = new A2AClient('https://agent.example.com/', { authToken: 'static-token' });
+
+    expect(await client.getTask('task-1')).toEqual(task);
+    expect(calls[0].url).toBe('https://agent.example.com/a2a');
+    expect(authorization(0)).toBe('Bearer static-token');
+  });
+
+  it('should refresh the token and retry once on 401', async () => {
+    let issued = 0;
+    const client = new A2AClient('https://agent.example.com', {
+      tokenProvider: {
+        getToken: async () => `token-${++issued}`,
+        invalidate: () => {}
+      }
+    });
+
+    responses = [new Response('', { status: 401 })];
+    expect(await client.getTask('task-1')).toEqual(task);
+    expect(calls.map((_, i) => authorization(i))).toEqual(['Bearer token-1', 'Bearer token-2']);
+
+    responses = [new Response('', { status: 401 }), new Response('', { status: 401 })];
+    await expect(client.getTask('task-1')).rejects.toThrow('HTTP error: 401');
+    expect(calls).toHaveLength(4);
+  });
+
+  it('should configure the token provider from the AgentCard', async () => {
+    const configured: unknown[] = [];
+    const client = new A2AClient('https://agent.example.com', {
+      tokenProvider: {
+        getToken: async () => 'token',
+        configure: (authentication, agentUrl) => configured.push(authentication, agentUrl)
+      }
+    });
+
+    responses = [json({ name: 'Remote', authentication: { schemes: ['OAuth2'], credentials: 'https://idp.example.com/token' } })];
+    await client.discoverAuthentication();
+
+    expect(calls[0].url).toBe('https://agent.example.com/.well-known/agent.json');
+    expect(configured).toEqual([{ schemes: ['OAuth2'], credentials: 'https://idp.example.com/token' }, 'https://agent.example.com']);
+  });
+
+  it('should refuse unsigned and tampered cards in strict mode', async () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const card = {
+      name: 'Remote',
+      description: 'Signed remote agent',
+      url: 'https://agent.example.com/a2a',
+      version: '1.0.0',
+      capabilities: { streaming: true, pushNotifications: false, stateTransitionHistory: false },
+      defaultInputModes: ['text'],
+      defaultOutputModes: ['text'],
+      skills: []
+    };
+    const signed = new CardSigner({ privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString() }).sign(card);
+    const client = new A2AClient('https://agent.example.com', {
+      cardVerification: { publicKeys: [publicKey.export({ type: 'spki', format: 'pem' }).toString()], strict: true }
+    });
+
+    responses = [json(signed)];
+    expect(await client.getAgentCard()).toEqual(signed);
+
+    responses = [json({ ...signed, url: 'https://attacker.example.com/a2a' })];
+    await expect(client.getAgentCard()).rejects.toThrow(CardVerificationError);
+
+    responses = [json(card)];
+    await expect(client.getAgentCard()).rejects.toThrow('AgentCard is not signed');
+
+    // Without strict mode the card is returned and can be checked explicitly
+    const lenient = new A2AClient('https://agent.example.com', {
+      cardVerification: { publicKeys: [publicKey.export({ type: 'spki', format: 'pem' }).toString()] }
+    });
+    responses = [json(card)];
+    expect(lenient.verifyAgentCard(await lenient.getAgentCard())).toEqual({ verified: false, reason: 'unsigned' });
+  });
+
+  it('should fetch the authenticated extended card over JSON-RPC', async () => {
+    const client = new A2AClient('https://agent.example.com', { authToken: 'static-token' });
+    const card = { name: 'Remote', skills: [{ id: 'refunds', name: 'Refunds', description: 'Issues refunds' }] };
+
+    responses = [json({ jsonrpc: '2.0', result: card, id: '1' })];
+    expect(await client.getAuthenticatedExtendedCard()).toEqual(card);
+    expect(JSON.parse(calls[0].init.body as string).method).toBe('agent/authenticatedExtendedCard');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Unit tests for CORS
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { Cors } from '../src/cors.js';
+
+function exchange(cors: Cors, headers: Record<string, string>, preflight = false) {
+  const req = { method: preflight ? 'OPTIONS' : 'GET', headers } as unknown as IncomingMessage;
+  const captured = { status: 0, headers: {} as Record<string, string> };
+  const res = {
+    setHeader: (name: string, value: string) => {
+      captured.headers[name] = value;
+    },
+    writeHead: (status: number) => {
+      captured.status = status;
+    },
+    end: () => {}
+  } as unknown as ServerResponse;
+
+  cors.apply(req, res);
+  if (preflight) {
+    cors.handlePreflight(req, res);
+  }
+  return captured;
+}
+
+describe('Cors', () => {
+  it('should only allow the configured origins', () => {
+    const cors = new Cors({ allowedOrigins: ['https://dashboard.example.com'] });
+
+    expect(exchange(cors, { origin: 'https://dashboard.example.com' }).headers).toEqual({
+      'Vary': 'Origin',
+      'Access-Control-Allow-Origin': 'https://dashboard.example.com',
+      'Access-Control-Expose-Headers': 'Retry-After, WWW-Authenticate'
+    });
+    expect(exchange(cors, { origin: 'https://evil.example.com' }).headers).toEqual({ 'Vary': 'Origin' });
+  });
+
+  it('should echo the origin instead of * for credentialed requests', () => {
+    const anyOrigin = exchange(new Cors({ allowedOrigins: ['*'] }), { origin: 'https://a.example.com' });
+    expect(anyOrigin.headers['Access-Control-Allow-Origin']).toBe('*');
+
+    const credentialed = exchange(
+      new Cors({ allowedOrigins: ['*'], allowCredentials: true }),
+      { origin: 'https://a.example.com' }
+    );
+    expect(credentialed.headers).toMatchObject({
+      'Access-Control-Allow-Origin': 'https://a.example.com',
+      'Access-Control-Allow-Credentials': 'true'
+    });
+  });
+
+  it('should answer preflight requests for allowed methods', () => {
+    const cors = new Cors({ allowedOrigins: ['https://dashboard.example.com'], maxAgeSec: 60 });
+    const origin = 'https://dashboard.example.com';
+
+    const allowed = exchange(cors, { origin, 'access-control-request-method': 'POST' }, true);
+    expect(allowed.status).toBe(204);
+    expect(allowed.headers).toMatchObject({
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, Last-Event-ID',
+      'Access-Control-Max-Age': '60'
+    });
+
+    const denied = exchange(cors, { origin, 'access-control-request-method': 'DELETE' }, true);
+    expect(denied.status).toBe(204);
+    expect(denied.headers['Access-Control-Allow-Methods']).toBeUndefined();
+  });
+});
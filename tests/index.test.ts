@@ -0,0 +1,663 @@
+/**
+ * Unit tests for the plugin entry point (HTTP routes)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { IncomingMessage, ServerResponse } from 'http';
+import register, { registerSkillHandler } from '../src/index.js';
+import { createHmac, generateKeyPairSync } from 'crypto';
+import { PROTOCOL_VERSION } from '../src/protocol-adapter.js';
+import { CardVerifier } from '../src/card-signing.js';
+import { taskManager } from '../src/task-manager.js';
+
+type RouteHandler = (req: IncomingMessage, res: ServerResponse) => Promise<void> | void;
+
+interface CapturedResponse {
+  status: number;
+  headers: Record<string, string | number>;
+  body: string;
+}
+
+function createApi(pluginConfig: Record<string, unknown>, overrides: { version?: string } = {}) {
+  const routes = new Map<string, RouteHandler>();
+  const api = {
+    id: 'a2a',
+    name: 'A2A',
+    source: 'test',
+    config: {},
+    pluginConfig,
+    logger: { info: () => {}, error: () => {}, warn: () => {} },
+    ...overrides,
+    registerHttpRoute: ({ path, handler }: { path: string; handler: RouteHandler }) => {
+      routes.set(path, handler);
+    },
+    registerService: () => {}
+  };
+  register(api);
+  return routes;
+}
+
+async function request(
+  handler: RouteHandler,
+  method: string,
+  url: string,
+  options: { body?: unknown; headers?: Record<string, string> } = {}
+): Promise<CapturedResponse> {
+  const payload = options.body === undefined ? '' : JSON.stringify(options.body);
+  const req = {
+    method,
+    url,
+    headers: { host: 'localhost', ...options.headers },
+    async *[Symbol.asyncIterator]() {
+      if (payload) {
+        yield Buffer.from(payload);
+      }
+    }
+  } as unknown as IncomingMessage;
+
+  const captured: CapturedResponse = { status: 0, headers: {}, body: '' };
+  await new Promise<void>((resolve) => {
+    const res = {
+      writeHead: (status: number, headers: Record<string, string | number> = {}) => {
+        captured.status = status;
+        captured.headers = { ...captured.headers, ...headers };
+        return res;
+      },
+      setHeader: (name: string, value: string | number) => {
+        captured.headers[name] = value;
+      },
+      flushHeaders: () => {},
+      write: (chunk: string) => {
+        captured.body += chunk;
+        return true;
+      },
+      end: (chunk?: string) => {
+        captured.body += chunk ?? '';
+        resolve();
+      },
+      on: () => res
+    } as unknown as ServerResponse;
+    Promise.resolve(handler(req, res)).catch(() => resolve());
+  });
+  return captured;
+}
+
+function sendTask(id: string) {
+  return {
+    jsonrpc: '2.0',
+    method: 'tasks/send',
+    params: { id, message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] } },
+    id: 'req-1'
+  };
+}
+
+describe('register', () => {
+  describe('multiple agents', () => {
+    let routes: Map<string, RouteHandler>;
+
+    beforeEach(() => {
+      routes = createApi({
+        enabled: true,
+        port: 18789,
+        agents: [
+          { id: 'support', name: 'Support Agent', description: 'Answers customers', skills: [] },
+          { id: 'billing', name: 'Billing Agent', description: 'Handles invoices', skills: [] }
+        ],
+        defaultAgent: 'billing'
+      });
+    });
+
+    it('should serve a card per agent and the default agent on the well-known path', async () => {
+      const handler = routes.get('/a2a')!;
+
+      const support = await request(handler, 'GET', '/a2a/support/.well-known/agent.json');
+      expect(JSON.parse(support.body)).toMatchObject({
+        name: 'Support Agent',
+        url: 'http://localhost:18789/a2a/support'
+      });
+
+      const discovery = await request(routes.get('/.well-known/agent.json')!, 'GET', '/.well-known/agent.json');
+      expect(JSON.parse(discovery.body).name).toBe('Billing Agent');
+    });
+
+    it('should keep the tasks of each agent separate', async () => {
+      const handler = routes.get('/a2a')!;
+
+      const sent = await request(handler, 'POST', '/a2a/support', { body: sendTask('agent-task-1') });
+      expect(JSON.parse(sent.body).result.id).toBe('agent-task-1');
+
+      const own = await request(handler, 'GET', '/a2a/support/tasks/agent-task-1');
+      expect(own.status).toBe(200);
+
+      const other = await request(handler, 'GET', '/a2a/billing/tasks/agent-task-1');
+      expect(other.status).toBe(404);
+
+      // The default agent is also reachable at /a2a
+      const legacy = await request(handler, 'GET', '/a2a/tasks/agent-task-1');
+      expect(legacy.status).toBe(404);
+    });
+
+    it('should keep skill handlers registered for the default agent before register', async () => {
+      const lookup = vi.fn().mockResolvedValue({ response: { role: 'agent', parts: [{ type: 'text', text: 'Found' }] } });
+      registerSkillHandler('lookup', lookup, 'early');
+
+      const handler = createApi({
+        enabled: true,
+        agents: [{ id: 'early', name: 'Early Agent', description: 'Registered first', skills: [{ id: 'lookup', name: 'Lookup', description: 'Finds' }] }]
+      }).get('/a2a')!;
+      const body = { ...sendTask('early-task'), params: { ...sendTask('early-task').params, metadata: { skillId: 'lookup' } } };
+      const sent = JSON.parse((await request(handler, 'POST', '/a2a/early', { body })).body);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(sent.error).toBeUndefined();
+      expect(lookup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should verify JWTs with the settings of each agent', async () => {
+      const secret = 'platform-signing-secret';
+      const jwtFor = (aud: string) => {
+        const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+        const data = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({ sub: 'peer', aud, exp: Math.floor(Date.now() / 1000) + 60 })}`;
+        return `${data}.${createHmac('sha256', secret).update(data).digest('base64url')}`;
+      };
+      const handler = createApi({
+        enabled: true,
+        jwt: { secret, audience: 'platform' },
+        agents: [
+          { id: 'support', name: 'Support Agent', description: 'Answers customers' },
+          { id: 'billing', name: 'Billing Agent', description: 'Handles invoices', jwt: { audience: 'billing' },
+            credentials: [{ name: 'finance', token: 'finance-token' }] },
+          { id: 'internal', name: 'Internal Agent', description: 'Static tokens only', jwt: false,
+            credentials: [{ name: 'ops', token: 'ops-token' }] }
+        ]
+      }).get('/a2a')!;
+      const list = async (agentId: string, token: string) =>
+        (await request(handler, 'GET', `/a2a/${agentId}/tasks`, { headers: { authorization: `Bearer ${token}` } })).status;
+
+      expect(await list('support', jwtFor('platform'))).toBe(200);
+      expect(await list('billing', jwtFor('platform'))).toBe(403);
+      expect(await list('billing', jwtFor('billing'))).toBe(200);
+      expect(await list('internal', jwtFor('platform'))).toBe(403);
+      expect(await list('internal', 'ops-token')).toBe(200);
+    });
+  });
+
+  describe('authentication', () => {
+    let handler: RouteHandler;
+
+    beforeEach(() => {
+      handler = createApi({
+        enabled: true,
+        agentName: 'Secured Agent',
+        agentDescription: 'Requires credentials',
+        skills: [],
+        credentials: [
+          { name: 'orchestrator', token: 'orchestrator-token', scopes: ['send', 'read'] },
+          { name: 'auditor', token: 'auditor-token', scopes: ['read'] },
+          { name: 'ops', token: 'ops-token', scopes: ['admin'] }
+        ]
+      }).get('/a2a')!;
+    });
+
+    it('should protect REST routes and keep the card public', async () => {
+      expect((await request(handler, 'GET', '/a2a/tasks')).status).toBe(401);
+      expect((await request(handler, 'GET', '/a2a/tasks', { headers: { 'x-api-key': 'wrong' } })).status).toBe(403);
+      expect((await request(handler, 'GET', '/a2a/tasks', { headers: { 'x-api-key': 'auditor-token' } })).status).toBe(200);
+      expect((await request(handler, 'GET', '/a2a/.well-known/agent.json')).status).toBe(200);
+    });
+
+    it('should enforce scopes and record the caller on the task', async () => {
+      const denied = await request(handler, 'POST', '/a2a', {
+        body: sendTask('auth-task-1'),
+        headers: { authorization: 'Bearer auditor-token' }
+      });
+      expect(JSON.parse(denied.body).error.code).toBe(-32013);
+
+      const sent = await request(handler, 'POST', '/a2a', {
+        body: sendTask('auth-task-1'),
+        headers: { authorization: 'Bearer orchestrator-token' }
+      });
+      expect(JSON.parse(sent.body).result.metadata.caller).toBe('orchestrator');
+
+      const cancel = await request(handler, 'POST', '/a2a/tasks/auth-task-1/cancel', {
+        headers: { authorization: 'Bearer orchestrator-token' }
+      });
+      expect(cancel.status).toBe(403);
+    });
+  });
+
+  describe('task isolation', () => {
+    let handler: RouteHandler;
+    const as = (token: string) => ({ headers: { 'x-api-key': token } });
+
+    beforeEach(async () => {
+      handler = createApi({
+        enabled: true,
+        agentName: 'Shared Agent',
+        agentDescription: 'Serves several peers',
+        skills: [],
+        credentials: [
+          { name: 'alice', token: 'alice-token' },
+          { name: 'bob', token: 'bob-token' },
+          { name: 'ops', token: 'ops-token', scopes: ['admin'] }
+        ]
+      }).get('/a2a')!;
+      await request(handler, 'POST', '/a2a', { body: sendTask('alice-task'), ...as('alice-token') });
+    });
+
+    it('should hide tasks from other callers', async () => {
+      expect((await request(handler, 'GET', '/a2a/tasks/alice-task', as('bob-token'))).status).toBe(404);
+      expect((await request(handler, 'POST', '/a2a/tasks/alice-task/cancel', as('bob-token'))).status).toBe(404);
+      expect((await request(handler, 'GET', '/a2a/tasks/alice-task/events', as('bob-token'))).status).toBe(404);
+
+      const rpcGet = await request(handler, 'POST', '/a2a', {
+        body: { jsonrpc: '2.0', method: 'tasks/get', params: { id: 'alice-task' }, id: 'req-2' },
+        ...as('bob-token')
+      });
+      expect(JSON.parse(rpcGet.body).error.code).toBe(-32001);
+
+      const list = await request(handler, 'GET', '/a2a/tasks', as('bob-token'));
+      expect(JSON.parse(list.body).result.tasks).toEqual([]);
+    });
+
+    it('should show tasks to their owner and to admins', async () => {
+      expect((await request(handler, 'GET', '/a2a/tasks/alice-task', as('alice-token'))).status).toBe(200);
+      expect((await request(handler, 'GET', '/a2a/tasks/alice-task', as('ops-token'))).status).toBe(200);
+
+      const list = await request(handler, 'GET', '/a2a/tasks', as('ops-token'));
+      expect(JSON.parse(list.body).result.tasks.map((t: { id: string }) => t.id)).toContain('alice-task');
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should answer 429 with Retry-After once the quota is used', async () => {
+      const handler = createApi({
+        enabled: true,
+        agentName: 'Limited Agent',
+        agentDescription: 'Has a quota',
+        skills: [],
+        credentials: [
+          { name: 'alice', token: 'alice-token' },
+          { name: 'ops', token: 'ops-token', scopes: ['admin'] }
+        ],
+        rateLimit: { dailyTaskQuota: 1 }
+      }).get('/a2a')!;
+      const alice = { headers: { 'x-api-key': 'alice-token' } };
+
+      expect((await request(handler, 'POST', '/a2a', { body: sendTask('limited-1'), ...alice })).status).toBe(200);
+
+      const limited = await request(handler, 'POST', '/a2a', { body: sendTask('limited-2'), ...alice });
+      expect(limited.status).toBe(429);
+      expect(Number(limited.headers['Retry-After'])).toBeGreaterThan(0);
+      expect(JSON.parse(limited.body).error).toMatchObject({ code: -32014, data: { reason: 'quota_exceeded' } });
+
+      // Reading tasks is not limited
+      expect((await request(handler, 'GET', '/a2a/tasks/limited-1', alice)).status).toBe(200);
+
+      expect((await request(handler, 'GET', '/a2a/usage', alice)).status).toBe(403);
+      const usage = await request(handler, 'GET', '/a2a/usage', { headers: { 'x-api-key': 'ops-token' } });
+      expect(JSON.parse(usage.body).result.callers).toEqual([{ key: 'alice', tasksToday: 1, dailyTaskQuota: 1 }]);
+    });
+
+    it('should only count the sends that create a task', async () => {
+      const handler = createApi({
+        enabled: true,
+        agentName: 'Limited Agent',
+        agentDescription: 'Has a quota',
+        skills: [],
+        credentials: [{ name: 'bob', token: 'bob-token' }],
+        rateLimit: { dailyTaskQuota: 1 }
+      }).get('/a2a')!;
+      const bob = { headers: { 'x-api-key': 'bob-token' } };
+      const refused = [
+        { jsonrpc: '2.0', method: 'tasks/send', params: { id: 'refused-1' }, id: 1 },
+        { ...sendTask('refused-2'), params: { ...sendTask('refused-2').params, metadata: { skillId: 'missing' } } },
+        { ...sendTask('refused-3'), method: 'tasks/sendSubscribe', params: { ...sendTask('refused-3').params, metadata: { skillId: 'missing' } } }
+      ];
+
+      for (const body of refused) {
+        const response = await request(handler, 'POST', '/a2a', { body, ...bob });
+        expect(response.status).not.toBe(429);
+      }
+
+      expect((await request(handler, 'POST', '/a2a', { body: sendTask('counted-1'), ...bob })).status).toBe(200);
+      expect((await request(handler, 'POST', '/a2a', { body: sendTask('counted-1'), ...bob })).status).toBe(429);
+    });
+  });
+
+  describe('payload limits', () => {
+    let handler: RouteHandler;
+
+    beforeEach(() => {
+      handler = createApi({
+        enabled: true,
+        agentName: 'Guarded Agent',
+        agentDescription: 'Small payloads only',
+        skills: [],
+        payloadLimits: { maxBodyBytes: 512, maxParts: 1 }
+      }).get('/a2a')!;
+    });
+
+    it('should answer 413 to oversized bodies', async () => {
+      const body = sendTask('big-task');
+      body.params.message.parts[0]!.text = 'x'.repeat(1024);
+
+      const response = await request(handler, 'POST', '/a2a', { body });
+      expect(response.status).toBe(413);
+      expect(JSON.parse(response.body).error.data).toEqual({ maxBodyBytes: 512 });
+    });
+
+    it('should reject messages over the limits as invalid params', async () => {
+      const body = sendTask('many-parts');
+      body.params.message.parts.push({ type: 'text', text: 'Again' });
+
+      const response = await request(handler, 'POST', '/a2a', { body });
+      expect(JSON.parse(response.body).error).toMatchObject({
+        code: -32602,
+        message: 'Message exceeds payload limits: Too many parts: 2 (max 1)'
+      });
+    });
+  });
+
+  describe('cors', () => {
+    const origin = { origin: 'https://dashboard.example.com' };
+    let handler: RouteHandler;
+
+    beforeEach(() => {
+      handler = createApi({
+        enabled: true,
+        agentName: 'Browser Agent',
+        agentDescription: 'Called from a dashboard',
+        skills: [],
+        authToken: 'secret-token',
+        cors: { allowedOrigins: ['https://dashboard.example.com'] }
+      }).get('/a2a')!;
+    });
+
+    it('should answer preflight requests before authentication', async () => {
+      for (const url of ['/a2a', '/a2a/tasks/some-task/cancel', '/.well-known/agent.json']) {
+        const preflight = await request(handler, 'OPTIONS', url, {
+          headers: { ...origin, 'access-control-request-method': 'POST' }
+        });
+        expect(preflight.status).toBe(204);
+        expect(preflight.headers['Access-Control-Allow-Origin']).toBe('https://dashboard.example.com');
+        expect(preflight.headers['Access-Control-Allow-Headers']).toContain('Authorization');
+      }
+    });
+
+    it('should send CORS headers on JSON and SSE responses', async () => {
+      const headers = { ...origin, authorization: 'Bearer secret-token' };
+      await request(handler, 'POST', '/a2a', { body: sendTask('cors-task'), headers });
+
+      const task = await request(handler, 'GET', '/a2a/tasks/cors-task', { headers });
+      expect(task.headers['Access-Control-Allow-Origin']).toBe('https://dashboard.example.com');
+
+      const events = await request(handler, 'GET', '/a2a/tasks/cors-task/events', { headers });
+      expect(events.headers['Content-Type']).toBe('text/event-stream');
+      expect(events.headers['Access-Control-Allow-Origin']).toBe('https://dashboard.example.com');
+
+      const unauthorized = await request(handler, 'GET', '/a2a/tasks', { headers: origin });
+      expect(unauthorized.status).toBe(401);
+      expect(unauthorized.headers['Access-Control-Expose-Headers']).toContain('WWW-Authenticate');
+    });
+  });
+
+  describe('event streams', () => {
+    let handler: RouteHandler;
+
+    beforeEach(() => {
+      handler = createApi({ enabled: true, agentName: 'Stream Agent', agentDescription: 'Streams', skills: [] }).get('/a2a')!;
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should start over when Last-Event-ID is ahead of the task, as after a restart', async () => {
+      let finish!: () => void;
+      taskManager.setHandler(() => new Promise(resolve => {
+        finish = () => resolve({ response: { role: 'agent', parts: [{ type: 'text', text: 'Done' }] } });
+      }));
+      await request(handler, 'POST', '/a2a', { body: sendTask('stream-ahead') });
+
+      const stream = request(handler, 'GET', '/a2a/tasks/stream-ahead/events', { headers: { 'last-event-id': '50' } });
+      finish();
+      const events = (await stream).body.split('\n\n').filter(Boolean);
+
+      expect(events[0]).toMatch(/^id: 1\n/);
+      expect(events[events.length - 1]).toContain('"state":"completed"');
+    });
+
+    it('should send the final status of a terminal task whose events expired', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+      taskManager.setHandler(async () => ({ response: { role: 'agent', parts: [{ type: 'text', text: 'Done' }] } }));
+      await request(handler, 'POST', '/a2a', { body: sendTask('stream-expired') });
+      await vi.advanceTimersByTimeAsync(61_000);
+
+      const stream = await request(handler, 'GET', '/a2a/tasks/stream-expired/events');
+      expect(stream.body).toMatch(/^id: 4\ndata: .*"state":"completed"/);
+
+      // A client that already saw the end gets nothing more
+      const caughtUp = await request(handler, 'GET', '/a2a/tasks/stream-expired/events', { headers: { 'last-event-id': '4' } });
+      expect(caughtUp.body).toBe('');
+    });
+  });
+
+  describe('json-rpc batches', () => {
+    it('should answer batches with an array and notifications with 204', async () => {
+      const handler = createApi({
+        enabled: true,
+        agentName: 'Batch Agent',
+        agentDescription: 'Polled in batches',
+        skills: []
+      }).get('/a2a')!;
+      const { id: _, ...notification } = sendTask('batch-http-1');
+
+      const sent = await request(handler, 'POST', '/a2a', { body: notification });
+      expect(sent.status).toBe(204);
+      expect(sent.body).toBe('');
+
+      const batch = await request(handler, 'POST', '/a2a', {
+        body: [
+          { jsonrpc: '2.0', method: 'tasks/get', params: { id: 'batch-http-1' }, id: 1 },
+          { jsonrpc: '2.0', method: 'tasks/get', params: { id: 'batch-http-2' }, id: 2 }
+        ]
+      });
+      expect(batch.status).toBe(200);
+      const responses = JSON.parse(batch.body);
+      expect(responses[0].result.id).toBe('batch-http-1');
+      expect(responses[1].error.code).toBe(-32001);
+    });
+
+    it('should answer a null body and invalid batch entries with -32600', async () => {
+      const handler = createApi({ enabled: true, agentName: 'Batch Agent', agentDescription: 'Polled', skills: [] }).get('/a2a')!;
+
+      const single = await request(handler, 'POST', '/a2a', { body: null });
+      expect(single.status).toBe(200);
+      expect(JSON.parse(single.body).error.code).toBe(-32600);
+
+      const batch = await request(handler, 'POST', '/a2a', { body: [null, 1] });
+      expect(batch.status).toBe(200);
+      expect(JSON.parse(batch.body).map((r: { error: { code: number } }) => r.error.code)).toEqual([-32600, -32600]);
+    });
+  });
+
+  describe('agent card', () => {
+    const skill = {
+      id: 'triage',
+      name: 'Triage',
+      description: 'Routes support requests',
+      tags: ['support'],
+      examples: ['My invoice is wrong'],
+      outputModes: ['application/json']
+    };
+
+    it('should publish card settings, per-agent overrides and the plugin version', async () => {
+      const routes = createApi({
+        enabled: true,
+        port: 18789,
+        provider: { organization: 'Example Corp', url: 'https://example.com' },
+        documentationUrl: 'https://example.com/agents',
+        agents: [
+          { id: 'support', name: 'Support Agent', description: 'Answers customers', skills: [skill] },
+          { id: 'billing', name: 'Billing Agent', description: 'Handles invoices', version: '3.0.0' }
+        ]
+      }, { version: '0.4.2' });
+      const handler = routes.get('/a2a')!;
+
+      const support = JSON.parse((await request(handler, 'GET', '/a2a/support/.well-known/agent.json')).body);
+      expect(support).toMatchObject({
+        provider: { organization: 'Example Corp', url: 'https://example.com' },
+        version: '0.4.2',
+        documentationUrl: 'https://example.com/agents',
+        skills: [skill]
+      });
+
+      const billing = JSON.parse((await request(handler, 'GET', '/a2a/billing/.well-known/agent.json')).body);
+      expect(billing.version).toBe('3.0.0');
+    });
+
+    it('should list private skills only in the extended card of allowed callers', async () => {
+      const routes = createApi({
+        enabled: true,
+        agentName: 'Secured Agent',
+        agentDescription: 'Requires credentials',
+        skills: [
+          skill,
+          { id: 'refunds', name: 'Refunds', description: 'Issues refunds', visibility: 'private' },
+          { id: 'reindex', name: 'Reindex', description: 'Rebuilds indexes', visibility: 'private', scopes: ['admin'] }
+        ],
+        credentials: [
+          { name: 'orchestrator', token: 'orchestrator-token', scopes: ['send', 'read'] },
+          { name: 'ops', token: 'ops-token', scopes: ['admin'] }
+        ]
+      });
+      const handler = routes.get('/a2a')!;
+      const skillIds = (card: { skills: Array<{ id: string }> }) => card.skills.map(s => s.id);
+
+      const publicCard = JSON.parse((await request(routes.get('/.well-known/agent.json')!, 'GET', '/.well-known/agent.json')).body);
+      expect(publicCard.supportsAuthenticatedExtendedCard).toBe(true);
+      expect(skillIds(publicCard)).toEqual(['triage']);
+
+      const rpc = await request(handler, 'POST', '/a2a', {
+        body: { jsonrpc: '2.0', method: 'agent/authenticatedExtendedCard', id: 1 },
+        headers: { authorization: 'Bearer orchestrator-token' }
+      });
+      expect(skillIds(JSON.parse(rpc.body).result)).toEqual(['triage', 'refunds']);
+      expect(JSON.parse(rpc.body).result.skills[1]).toEqual({ id: 'refunds', name: 'Refunds', description: 'Issues refunds' });
+
+      const rest = await request(handler, 'GET', '/a2a/agent/authenticatedExtendedCard', {
+        headers: { 'x-api-key': 'ops-token' }
+      });
+      expect(skillIds(JSON.parse(rest.body))).toEqual(['triage', 'refunds', 'reindex']);
+
+      expect((await request(handler, 'GET', '/a2a/agent/authenticatedExtendedCard')).status).toBe(401);
+    });
+
+    it('should answer a private skill the caller cannot see like an unknown skill', async () => {
+      const routes = createApi({
+        enabled: true,
+        agentName: 'Secured Agent',
+        agentDescription: 'Requires credentials',
+        skills: [
+          skill,
+          { id: 'reindex', name: 'Reindex', description: 'Rebuilds indexes', visibility: 'private', scopes: ['admin'] }
+        ],
+        credentials: [
+          { name: 'orchestrator', token: 'orchestrator-token', scopes: ['send', 'read'] },
+          { name: 'ops', token: 'ops-token', scopes: ['send', 'admin'] }
+        ]
+      });
+      const handler = routes.get('/a2a')!;
+      const sendToSkill = async (id: string, skillId: string, token: string) => JSON.parse((await request(handler, 'POST', '/a2a', {
+        body: {
+          jsonrpc: '2.0',
+          method: 'tasks/send',
+          params: { id, message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }, metadata: { skillId } },
+          id: 1
+        },
+        headers: { authorization: `Bearer ${token}` }
+      })).body);
+
+      const hidden = await sendToSkill('private-skill-1', 'reindex', 'orchestrator-token');
+      const unknown = await sendToSkill('private-skill-2', 'rebuild', 'orchestrator-token');
+      expect(hidden.error).toEqual({ code: -32012, message: 'Skill not found: reindex', data: { skillId: 'reindex' } });
+      expect(unknown.error).toEqual({ code: -32012, message: 'Skill not found: rebuild', data: { skillId: 'rebuild' } });
+
+      const allowed = await sendToSkill('private-skill-3', 'reindex', 'ops-token');
+      expect(allowed.error).toBeUndefined();
+      expect(allowed.result.metadata.skillId).toBe('reindex');
+    });
+
+    it('should not offer an extended card without authentication', async () => {
+      const routes = createApi({ enabled: true, agentName: 'Open Agent', agentDescription: 'No auth', skills: [] });
+      const handler = routes.get('/a2a')!;
+
+      const card = JSON.parse((await request(handler, 'GET', '/a2a/.well-known/agent.json')).body);
+      expect(card.supportsAuthenticatedExtendedCard).toBe(false);
+
+      const rpc = await request(handler, 'POST', '/a2a', {
+        body: { jsonrpc: '2.0', method: 'agent/authenticatedExtendedCard', id: 1 }
+      });
+      expect(JSON.parse(rpc.body).error.code).toBe(-32007);
+      expect((await request(handler, 'GET', '/a2a/agent/authenticatedExtendedCard')).status).toBe(404);
+    });
+
+    it('should sign the public and extended cards when a key is configured', async () => {
+      const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      const routes = createApi({
+        enabled: true,
+        agentName: 'Signed Agent',
+        agentDescription: 'Signs its card',
+        skills: [],
+        credentials: [{ name: 'orchestrator', token: 'orchestrator-token' }],
+        cardSigning: { privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(), keyId: 'card-1' }
+      });
+      const verifier = new CardVerifier({ publicKeys: [publicKey.export({ type: 'spki', format: 'pem' }).toString()] });
+
+      const publicCard = JSON.parse((await request(routes.get('/.well-known/agent.json')!, 'GET', '/.well-known/agent.json')).body);
+      expect(verifier.verify(publicCard)).toEqual({ verified: true, keyId: 'card-1' });
+
+      const extended = await request(routes.get('/a2a')!, 'GET', '/a2a/agent/authenticatedExtendedCard', {
+        headers: { 'x-api-key': 'orchestrator-token' }
+      });
+      expect(verifier.verify(JSON.parse(extended.body)).verified).toBe(true);
+    });
+
+    it('should skip agents whose card settings are invalid', async () => {
+      const routes = createApi({
+        enabled: true,
+        agents: [
+          { id: 'broken', name: 'Broken Agent', description: 'Bad icon', iconUrl: 'not a url' },
+          { id: 'valid', name: 'Valid Agent', description: 'Fine' }
+        ]
+      });
+
+      const discovery = await request(routes.get('/.well-known/agent.json')!, 'GET', '/.well-known/agent.json');
+      expect(JSON.parse(discovery.body).name).toBe('Valid Agent');
+      expect((await request(routes.get('/a2a')!, 'GET', '/a2a/broken/.well-known/agent.json')).status).toBe(404);
+    });
+  });
+
+  describe('single agent', () => {
+    it('should serve the top-level agent at /a2a', async () => {
+      const routes = createApi({
+        enabled: true,
+        agentName: 'Solo Agent',
+        agentDescription: 'Only agent',
+        skills: []
+      });
+      const handler = routes.get('/a2a')!;
+
+      const sent = await request(handler, 'POST', '/a2a', { body: sendTask('solo-task-1') });
+      expect(sent.status).toBe(200);
+
+      const card = await request(handler, 'GET', '/.well-known/agent.json');
+      expect(JSON.parse(card.body)).toMatchObject({
+        name: 'Solo Agent',
+        url: 'http://localhost:18789/a2a',
+        protocolVersion: PROTOCOL_VERSION
+      });
+    });
+  });
+});
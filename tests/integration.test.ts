@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { handleRPC } from '../src/rpc-handler.js';
 import { taskManager } from '../src/task-manager.js';
+import { OpenClawTaskHandler, type A2AConfig, type PluginRuntime } from '../src/integration.js';
 
 describe('A2A Integration', () => {
   beforeEach(() => {
@@ -226,4 +227,83 @@ describe('A2A Integration', () => {
       expect(response.error!.code).toBe(-32001);
     });
   });
+
+  describe('OpenClawTaskHandler', () => {
+    const config: A2AConfig = {
+      enabled: true,
+      port: 0,
+      agentName: 'Test Agent',
+      agentDescription: 'Test',
+      skills: []
+    };
+
+    it('should pass the task abort signal to the OpenClaw dispatcher', async () => {
+      const dispatch = vi.fn().mockResolvedValue({ queuedFinal: [{ text: 'Hi' }] });
+      const runtime = {
+        config: { loadConfig: () => ({}) },
+        channel: { reply: { dispatchReplyWithBufferedBlockDispatcher: dispatch } }
+      } as unknown as PluginRuntime;
+      const handler = new OpenClawTaskHandler(config, runtime);
+      const controller = new AbortController();
+
+      const result = await handler.handle(
+        { role: 'user', parts: [{ type: 'text', text: 'Hello' }] },
+        { taskId: 't-1', sessionId: 's-1', history: [], signal: controller.signal }
+      );
+
+      expect(result.response.parts[0]).toEqual({ type: 'text', text: 'Hi' });
+      expect(dispatch.mock.calls[0][0].replyOptions.abortSignal).toBe(controller.signal);
+      expect(dispatch.mock.calls[0][0].ctx.SessionKey).toBe('a2a-s-1');
+    });
+
+    it('should stream reply blocks as incremental text updates', async () => {
+      const dispatch = vi.fn().mockImplementation(async ({ dispatcherOptions }) => {
+        await dispatcherOptions.deliver({ text: 'First block' }, { kind: 'block' });
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await dispatcherOptions.deliver({ text: 'Second block' }, { kind: 'block' });
+        return {};
+      });
+      const runtime = {
+        config: { loadConfig: () => ({}) },
+        channel: { reply: { dispatchReplyWithBufferedBlockDispatcher: dispatch } }
+      } as unknown as PluginRuntime;
+      const handler = new OpenClawTaskHandler(config, runtime);
+
+      const updates = [];
+      for await (const update of handler.stream({ role: 'user', parts: [{ type: 'text', text: 'Hello' }] })) {
+        updates.push(update);
+      }
+
+      expect(updates).toEqual([
+        { type: 'text', text: 'First block' },
+        { type: 'text', text: '\n\nSecond block' },
+        { type: 'result', response: { role: 'agent', parts: [{ type: 'text', text: 'First block\n\nSecond block' }] } }
+      ]);
+    });
+
+    it('should forward only the new text of partial replies', async () => {
+      const dispatch = vi.fn().mockImplementation(async ({ dispatcherOptions, replyOptions }) => {
+        await replyOptions.onPartialReply({ text: 'Hel' });
+        await replyOptions.onPartialReply({ text: 'Hello wor' });
+        await dispatcherOptions.deliver({ text: 'Hello world' }, { kind: 'block' });
+        await dispatcherOptions.deliver({ text: 'Hello world' }, { kind: 'final' });
+        return {};
+      });
+      const runtime = {
+        config: { loadConfig: () => ({}) },
+        channel: { reply: { dispatchReplyWithBufferedBlockDispatcher: dispatch } }
+      } as unknown as PluginRuntime;
+      const handler = new OpenClawTaskHandler(config, runtime);
+
+      const texts: string[] = [];
+      let final = '';
+      for await (const update of handler.stream({ role: 'user', parts: [{ type: 'text', text: 'Hello' }] })) {
+        if (update.type === 'text') texts.push(update.text);
+        if (update.type === 'result') final = (update.response!.parts[0] as { text: string }).text;
+      }
+
+      expect(texts).toEqual(['Hel', 'lo wor']);
+      expect(final).toBe('Hello world');
+    });
+  });
 });
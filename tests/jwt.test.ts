@@ -0,0 +1,149 @@
+/**
+ * Unit tests for JWT verification
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createHmac, generateKeyPairSync, sign, type KeyObject } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JwtVerifier, JwtVerificationError } from '../src/jwt.js';
+import { Authenticator, canAccessTask } from '../src/auth.js';
+import type { Task } from '../src/models.js';
+
+const now = Date.UTC(2026, 0, 1);
+const nowSec = now / 1000;
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signToken(
+  header: Record<string, unknown>,
+  claims: Record<string, unknown>,
+  key: string | KeyObject
+): string {
+  const data = `${encode(header)}.${encode(claims)}`;
+  let signature: Buffer;
+  if (header.alg === 'HS256') {
+    signature = createHmac('sha256', key as string).update(data).digest();
+  } else if (header.alg === 'ES256') {
+    signature = sign('sha256', Buffer.from(data), { key: key as KeyObject, dsaEncoding: 'ieee-p1363' });
+  } else {
+    signature = sign('sha256', Buffer.from(data), key as KeyObject);
+  }
+  return `${data}.${signature.toString('base64url')}`;
+}
+
+describe('JwtVerifier', () => {
+  const secret = 'a-shared-secret-of-decent-length';
+  const claims = { sub: 'orchestrator', exp: nowSec + 300, iss: 'https://idp.example.com', aud: 'a2a' };
+
+  it('should verify HS256 tokens and map claims to the caller', () => {
+    const verifier = new JwtVerifier({ secret, issuer: 'https://idp.example.com', audience: 'a2a' });
+    const token = signToken({ alg: 'HS256', typ: 'JWT' }, { ...claims, scope: 'send read unknown' }, secret);
+
+    expect(verifier.verify(token, now)).toEqual({ name: 'orchestrator', scopes: ['send', 'read'] });
+  });
+
+  it('should check exp, nbf, iss and aud', () => {
+    const verifier = new JwtVerifier({ secret, issuer: 'https://idp.example.com', audience: ['a2a'] });
+    const check = (overrides: Record<string, unknown>) =>
+      () => verifier.verify(signToken({ alg: 'HS256' }, { ...claims, ...overrides }, secret), now);
+
+    expect(check({ exp: nowSec - 60 })).toThrow('Token expired');
+    expect(check({ exp: undefined })).toThrow('Token has no expiration');
+    expect(check({ nbf: nowSec + 60 })).toThrow('Token not yet valid');
+    expect(check({ iss: 'https://evil.example.com' })).toThrow('Unexpected issuer');
+    expect(check({ aud: ['other'] })).toThrow('Unexpected audience');
+    // Within the clock tolerance
+    expect(check({ exp: nowSec - 10 })).not.toThrow();
+  });
+
+  it('should reject tampered tokens and unexpected algorithms', () => {
+    const verifier = new JwtVerifier({ secret });
+    const token = signToken({ alg: 'HS256' }, claims, secret);
+    const [header, , signature] = token.split('.');
+    const tampered = `${header}.${encode({ ...claims, sub: 'admin' })}.${signature}`;
+
+    expect(() => verifier.verify(tampered, now)).toThrow('Invalid signature');
+    const unsigned = `${encode({ alg: 'none' })}.${encode(claims)}.`;
+    expect(() => verifier.verify(unsigned, now)).toThrow(JwtVerificationError);
+  });
+
+  describe('public keys', () => {
+    let dir: string;
+    let rsa: { publicKey: KeyObject; privateKey: KeyObject };
+    let ec: { publicKey: KeyObject; privateKey: KeyObject };
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'a2a-jwt-'));
+      rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    });
+
+    afterAll(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should verify RS256 tokens with a PEM key', () => {
+      const publicKey = rsa.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+      const verifier = new JwtVerifier({ publicKey });
+
+      expect(verifier.verify(signToken({ alg: 'RS256' }, claims, rsa.privateKey), now).name).toBe('orchestrator');
+      // The public key must not work as an HS256 secret
+      expect(() => verifier.verify(signToken({ alg: 'HS256' }, claims, publicKey), now))
+        .toThrow('Unsupported algorithm: HS256');
+    });
+
+    it('should verify ES256 tokens with a JWKS file and pick up new keys', () => {
+      const jwksPath = path.join(dir, 'jwks.json');
+      fs.writeFileSync(jwksPath, JSON.stringify({ keys: [] }));
+      const verifier = new JwtVerifier({ jwksPath });
+      const token = signToken({ alg: 'ES256', kid: 'key-1' }, claims, ec.privateKey);
+
+      expect(() => verifier.verify(token, now)).toThrow('Invalid signature');
+
+      const jwk = { ...ec.publicKey.export({ format: 'jwk' }), kid: 'key-1' };
+      fs.writeFileSync(jwksPath, JSON.stringify({ keys: [jwk] }));
+      fs.utimesSync(jwksPath, new Date(), new Date(Date.now() + 1000));
+
+      expect(verifier.verify(token, now).name).toBe('orchestrator');
+    });
+  });
+
+  it('should let the Authenticator accept JWTs next to static credentials', () => {
+    const authenticator = new Authenticator(
+      [{ name: 'static', token: 'static-token' }],
+      new JwtVerifier({ secret })
+    );
+    const token = signToken({ alg: 'HS256' }, { sub: 'peer', exp: Math.floor(Date.now() / 1000) + 60 }, secret);
+
+    expect(authenticator.authenticate({ authorization: `Bearer ${token}` }))
+      .toEqual({ success: true, caller: { name: 'jwt:peer', scopes: ['send', 'read', 'cancel'] } });
+    expect(authenticator.authenticate({ 'x-api-key': 'static-token' }).success).toBe(true);
+    expect(authenticator.authentication).toEqual({ schemes: ['Bearer', 'ApiKey'] });
+  });
+
+  it('should keep JWT callers apart from static credentials of the same name', () => {
+    const authenticator = new Authenticator(
+      [{ name: 'default', token: 'legacy-token', scopes: ['send', 'read', 'cancel', 'admin'] }],
+      new JwtVerifier({ secret, defaultScopes: ['send', 'read', 'cancel'] })
+    );
+    const token = signToken({ alg: 'HS256' }, { sub: 'default', exp: Math.floor(Date.now() / 1000) + 60 }, secret);
+    const result = authenticator.authenticate({ authorization: `Bearer ${token}` });
+    const legacyTask = { id: 'legacy-task', status: { state: 'working' as const }, metadata: { caller: 'default' } };
+
+    expect(result).toEqual({ success: true, caller: { name: 'jwt:default', scopes: ['send', 'read', 'cancel'] } });
+    expect(canAccessTask(result.success === true ? result.caller : undefined, legacyTask as Task)).toBe(false);
+  });
+
+  it('should advertise the token endpoint of the JWT issuer as OAuth2', () => {
+    const authenticator = new Authenticator([], new JwtVerifier({ secret, tokenUrl: 'https://idp.example.com/token' }));
+
+    expect(authenticator.authentication).toEqual({
+      schemes: ['Bearer', 'OAuth2'],
+      credentials: 'https://idp.example.com/token'
+    });
+  });
+});
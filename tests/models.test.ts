@@ -57,12 +57,22 @@ describe('A2A Models', () => {
         file: {
           name: 'document.pdf',
           mimeType: 'application/pdf',
-          bytes: 'JVBERi0xLjQKJeLjz9MK...'
+          bytes: 'JVBERi0xLjQKJeLjz9MK'
         }
       });
       expect(result.success).toBe(true);
     });
 
+    it('should reject inline data that is not valid base64', () => {
+      for (const bytes of ['JVBERi0xLjQK...', 'JVBERi0xLjQ', 'JVBE Ri0x', 'JVBERi0x-_==']) {
+        const result = FilePartSchema.safeParse({
+          type: 'file',
+          file: { name: 'document.pdf', mimeType: 'application/pdf', bytes }
+        });
+        expect(result.success).toBe(false);
+      }
+    });
+
     it('should validate a file part with URI', () => {
       const result = FilePartSchema.safeParse({
         type: 'file',
@@ -117,7 +127,7 @@ describe('A2A Models', () => {
 
   describe('TaskStateSchema', () => {
     it('should accept all valid states', () => {
-      const states = ['submitted', 'working', 'completed', 'failed', 'canceled'];
+      const states = ['submitted', 'working', 'input-required', 'completed', 'failed', 'canceled'];
       for (const state of states) {
         const result = TaskStateSchema.safeParse(state);
         expect(result.success).toBe(true);
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for payload limits
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  readBody,
+  checkMessageLimits,
+  base64DecodedSize,
+  PayloadTooLargeError
+} from '../src/payload-limits.js';
+import type { Message } from '../src/models.js';
+
+function source(chunks: string[], headers: Record<string, string> = {}) {
+  let read = 0;
+  return {
+    headers,
+    get read() {
+      return read;
+    },
+    async *[Symbol.asyncIterator]() {
+      for (const chunk of chunks) {
+        read++;
+        yield Buffer.from(chunk);
+      }
+    }
+  };
+}
+
+function message(parts: Message['parts']): Message {
+  return { role: 'user', parts };
+}
+
+describe('readBody', () => {
+  it('should read a body within the limit', async () => {
+    expect(await readBody(source(['{"a":', '1}']), 16)).toBe('{"a":1}');
+  });
+
+  it('should reject a declared Content-Length above the limit without reading', async () => {
+    const req = source(['x'.repeat(10)], { 'content-length': '100' });
+
+    await expect(readBody(req, 16)).rejects.toBeInstanceOf(PayloadTooLargeError);
+    expect(req.read).toBe(0);
+  });
+
+  it('should stop reading at the first chunk over the limit', async () => {
+    const req = source(['x'.repeat(10), 'x'.repeat(10), 'x'.repeat(10)]);
+
+    await expect(readBody(req, 16)).rejects.toThrow('Request body exceeds 16 bytes');
+    expect(req.read).toBe(2);
+  });
+});
+
+describe('checkMessageLimits', () => {
+  const pdf = (bytes: string, mimeType = 'application/pdf') =>
+    ({ type: 'file' as const, file: { name: 'doc.pdf', mimeType, bytes } });
+
+  it('should accept messages within the limits', () => {
+    expect(checkMessageLimits(message([{ type: 'text', text: 'Hello' }, pdf('JVBERi0x')]))).toBeUndefined();
+  });
+
+  it('should report the exceeded limit', () => {
+    const text = (length: number) => ({ type: 'text' as const, text: 'x'.repeat(length) });
+
+    expect(checkMessageLimits(message([text(1), text(1), text(1)]), { maxParts: 2 }))
+      .toBe('Too many parts: 3 (max 2)');
+    expect(checkMessageLimits(message([text(1), text(11)]), { maxTextLength: 10 }))
+      .toBe('Part 1: text exceeds 10 characters');
+    expect(checkMessageLimits(message([pdf('AAAAAAAA')]), { maxFileBytes: 5 }))
+      .toBe('Part 0: file exceeds 5 bytes');
+  });
+
+  it('should only accept allowed MIME types', () => {
+    const limits = { allowedMimeTypes: ['image/*', 'application/pdf'] };
+
+    expect(checkMessageLimits(message([pdf('AAAA', 'image/png')]), limits)).toBeUndefined();
+    expect(checkMessageLimits(message([pdf('AAAA', 'Application/PDF; charset=binary')]), limits)).toBeUndefined();
+    expect(checkMessageLimits(message([pdf('AAAA', 'application/x-msdownload')]), limits))
+      .toBe('Part 0: file type application/x-msdownload is not allowed');
+  });
+});
+
+describe('base64DecodedSize', () => {
+  it('should account for padding', () => {
+    expect(base64DecodedSize(Buffer.from('abc').toString('base64'))).toBe(3);
+    expect(base64DecodedSize(Buffer.from('abcd').toString('base64'))).toBe(4);
+    expect(base64DecodedSize(Buffer.from('abcde').toString('base64'))).toBe(5);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Unit tests for the protocol adapter
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeRequest,
+  taskDialect,
+  toCurrentEvent,
+  toCurrentTask,
+  toInternalPart,
+  PROTOCOL_VERSION
+} from '../src/protocol-adapter.js';
+import { TaskManager } from '../src/task-manager.js';
+import type { Task, TaskEvent } from '../src/models.js';
+
+const task: Task = {
+  id: 'task-1',
+  sessionId: 'context-1',
+  status: { state: 'completed', timestamp: '2026-01-01T00:00:00.000Z', message: 'Done' },
+  artifacts: [{ name: 'answer', parts: [{ type: 'text', text: '42' }], index: 0 }],
+  history: [
+    { role: 'user', messageId: 'msg-1', parts: [{ type: 'text', text: 'Question' }] },
+    { role: 'agent', parts: [{ type: 'text', text: '42' }] }
+  ],
+  metadata: { protocolVersion: PROTOCOL_VERSION }
+};
+
+describe('normalizeRequest', () => {
+  it('should map message/send to tasks/send', () => {
+    const { request, dialect, historyLength } = normalizeRequest({
+      jsonrpc: '2.0',
+      method: 'message/send',
+      params: {
+        message: {
+          kind: 'message',
+          role: 'user',
+          messageId: 'msg-1',
+          taskId: 'task-1',
+          contextId: 'context-1',
+          parts: [
+            { kind: 'text', text: 'Hello' },
+            { kind: 'file', file: { uri: 'https://example.com/a.png' } }
+          ]
+        },
+        configuration: { historyLength: 1 }
+      },
+      id: 1
+    });
+
+    expect(dialect).toBe('current');
+    expect(historyLength).toBe(1);
+    expect(request).toEqual({
+      jsonrpc: '2.0',
+      method: 'tasks/send',
+      params: {
+        id: 'task-1',
+        sessionId: 'context-1',
+        message: {
+          role: 'user',
+          messageId: 'msg-1',
+          parts: [
+            { type: 'text', text: 'Hello' },
+            { type: 'file', file: { name: 'file', mimeType: 'application/octet-stream', uri: 'https://example.com/a.png' } }
+          ]
+        },
+        metadata: { protocolVersion: PROTOCOL_VERSION }
+      },
+      id: 1
+    });
+  });
+
+  it('should generate a task id for new conversations', () => {
+    const { request } = normalizeRequest({
+      jsonrpc: '2.0',
+      method: 'message/stream',
+      params: { message: { role: 'user', messageId: 'm', parts: [{ kind: 'text', text: 'Hi' }] } },
+      id: 1
+    });
+    const { method, params } = request as { method: string; params: { id: string } };
+
+    expect(method).toBe('tasks/sendSubscribe');
+    expect(params.id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should tell legacy methods from methods of both dialects', () => {
+    expect(normalizeRequest({ jsonrpc: '2.0', method: 'tasks/send', params: {}, id: 1 }).dialect).toBe('legacy');
+    expect(normalizeRequest({ jsonrpc: '2.0', method: 'tasks/get', params: { id: 'x' }, id: 1 }).dialect).toBeUndefined();
+    expect(normalizeRequest({
+      jsonrpc: '2.0',
+      method: 'tasks/pushNotificationConfig/set',
+      params: { taskId: 'task-1', pushNotificationConfig: { url: 'https://hooks.example.com' } },
+      id: 1
+    }).request).toMatchObject({ method: 'tasks/pushNotification/set', params: { id: 'task-1' } });
+  });
+
+  it('should leave legacy parts untouched', () => {
+    expect(toInternalPart({ type: 'text', text: 'Hi' })).toEqual({ type: 'text', text: 'Hi' });
+  });
+});
+
+describe('current dialect output', () => {
+  it('should present tasks with kind, contextId and message ids', () => {
+    expect(taskDialect(task)).toBe('current');
+    expect(toCurrentTask(task, 1)).toEqual({
+      kind: 'task',
+      id: 'task-1',
+      contextId: 'context-1',
+      status: {
+        state: 'completed',
+        timestamp: '2026-01-01T00:00:00.000Z',
+        message: {
+          kind: 'message',
+          role: 'agent',
+          parts: [{ kind: 'text', text: 'Done' }],
+          messageId: 'task-1-status',
+          taskId: 'task-1',
+          contextId: 'context-1'
+        }
+      },
+      artifacts: [{ name: 'answer', artifactId: 'task-1-artifact-0', parts: [{ kind: 'text', text: '42' }] }],
+      history: [{
+        kind: 'message',
+        role: 'agent',
+        parts: [{ kind: 'text', text: '42' }],
+        messageId: 'task-1-1',
+        taskId: 'task-1',
+        contextId: 'context-1'
+      }],
+      metadata: { protocolVersion: PROTOCOL_VERSION }
+    });
+  });
+
+  it('should map task events to stream events', () => {
+    const submitted = { ...task, status: { state: 'submitted' as const, timestamp: task.status.timestamp } };
+    expect(toCurrentEvent({ type: 'status', task: submitted, seq: 1 })).toMatchObject({ kind: 'task', id: 'task-1' });
+
+    expect(toCurrentEvent({ type: 'status', task, seq: 4 })).toMatchObject({
+      kind: 'status-update',
+      taskId: 'task-1',
+      contextId: 'context-1',
+      status: { state: 'completed' },
+      final: true
+    });
+
+    const artifact = { parts: [{ type: 'text' as const, text: '4' }], index: 0, append: true };
+    expect(toCurrentEvent({ type: 'artifact', task, artifact, seq: 3 })).toEqual({
+      kind: 'artifact-update',
+      taskId: 'task-1',
+      contextId: 'context-1',
+      artifact: { artifactId: 'task-1-artifact-0', parts: [{ kind: 'text', text: '4' }] },
+      append: true
+    });
+  });
+
+  it('should give each artifact of a handler result its own id', async () => {
+    const manager = new TaskManager();
+    manager.setHandler(async () => ({
+      response: { role: 'agent', parts: [{ type: 'text', text: 'Done' }] },
+      artifacts: [
+        { name: 'summary', parts: [{ type: 'text', text: 'Short' }] },
+        { name: 'details', parts: [{ type: 'text', text: 'Long' }] }
+      ]
+    }));
+    const events: TaskEvent[] = [];
+    manager.on('task', (event: TaskEvent) => events.push(event));
+
+    await manager.createTask({ id: 'a1', message: { role: 'user', parts: [{ type: 'text', text: 'Hi' }] } });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const ids = events
+      .filter(event => event.type === 'artifact')
+      .map(event => (toCurrentEvent(event).artifact as { artifactId: string }).artifactId);
+    expect(ids).toEqual(['a1-artifact-0', 'a1-artifact-1']);
+  });
+});
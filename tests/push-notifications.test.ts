@@ -0,0 +1,147 @@
+/**
+ * Unit tests for push notifications
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createHmac } from 'crypto';
+import { TaskManager } from '../src/task-manager.js';
+import { PushNotificationService, signPayload } from '../src/push-notifications.js';
+
+describe('PushNotificationService', () => {
+  let manager: TaskManager;
+  let service: PushNotificationService;
+  let requests: Array<{ url: string; init: RequestInit }>;
+  let statuses: number[];
+  let addresses: string[];
+
+  beforeEach(() => {
+    manager = new TaskManager();
+    manager.setHandler(vi.fn().mockResolvedValue({
+      response: { role: 'agent', parts: [{ type: 'text', text: 'Done' }] }
+    }));
+    requests = [];
+    statuses = [];
+    addresses = ['93.184.216.34'];
+    service = new PushNotificationService(
+      manager,
+      { initialDelayMs: 1, maxAttempts: 3 },
+      undefined,
+      async (url, init) => {
+        requests.push({ url, init });
+        const status = statuses.shift() ?? 200;
+        return { ok: status < 300, status };
+      },
+      async () => addresses
+    );
+    service.start();
+  });
+
+  afterEach(() => {
+    service.stop();
+  });
+
+  async function runTask(id: string): Promise<void> {
+    await manager.createTask({
+      id,
+      message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }
+    });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await service.flush();
+  }
+
+  it('should POST task events in order and end the subscription on completion', async () => {
+    service.setConfig('push-1', { url: 'https://hooks.example.com/a2a', token: 'sub-token' });
+
+    await runTask('push-1');
+
+    const events = requests.map(r => JSON.parse(r.init.body as string));
+    expect(events.map(e => e.seq)).toEqual([1, 2, 3, 4]);
+    expect(events[3].task.status.state).toBe('completed');
+    expect(requests[0].url).toBe('https://hooks.example.com/a2a');
+    expect((requests[0].init.headers as Record<string, string>)['X-A2A-Notification-Token']).toBe('sub-token');
+    expect(service.getConfig('push-1')).toBeUndefined();
+  });
+
+  it('should sign the payload when a secret is set', async () => {
+    const secret = 'a-very-long-shared-secret';
+    service.setConfig('push-2', { url: 'https://hooks.example.com/a2a', secret });
+
+    await runTask('push-2');
+
+    const { body, headers } = requests[0].init;
+    const signature = (headers as Record<string, string>)['X-A2A-Signature'];
+    const timestamp = Number(/^t=(\d+),/.exec(signature)![1]);
+    const expected = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    expect(signature).toBe(`t=${timestamp},v1=${expected}`);
+    expect(signPayload(secret, body as string, timestamp)).toBe(signature);
+  });
+
+  it('should retry failed deliveries and dead-letter them after the last attempt', async () => {
+    statuses = [503, 200, 500, 500, 500];
+    service.setConfig('push-3', { url: 'https://hooks.example.com/a2a' });
+
+    await manager.createTask({
+      id: 'push-3',
+      message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }
+    });
+    await service.flush();
+
+    // First event delivered on retry, second one dropped after 3 attempts
+    expect(requests.length).toBeGreaterThanOrEqual(5);
+    const deadLetters = service.getDeadLetters();
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0]).toMatchObject({ taskId: 'push-3', attempts: 3, error: 'Webhook responded with HTTP 500' });
+  });
+
+  it('should not retry client errors', async () => {
+    statuses = [404];
+    service.setConfig('push-4', { url: 'https://hooks.example.com/a2a' });
+
+    await runTask('push-4');
+
+    expect(service.getDeadLetters()[0]).toMatchObject({ attempts: 1, error: 'Webhook responded with HTTP 404' });
+    expect(requests).toHaveLength(4);
+  });
+
+  describe('webhook hosts', () => {
+    it('should refuse loopback, link-local and private addresses', () => {
+      expect(service.checkUrl('https://hooks.example.com/a2a')).toBeUndefined();
+      expect(service.checkUrl('https://93.184.216.34/a2a')).toBeUndefined();
+      for (const url of [
+        'http://169.254.169.254/latest/meta-data',
+        'http://127.0.0.1:8080/hook',
+        'http://2130706433/hook',
+        'http://localhost/hook',
+        'http://api.localhost/hook',
+        'http://192.168.1.10/hook',
+        'http://172.20.0.1/hook',
+        'http://[::1]/hook',
+        'http://[::ffff:127.0.0.1]/hook',
+        'http://[fe80::1]/hook',
+        'http://[fd00::1]/hook'
+      ]) {
+        expect(service.checkUrl(url)).toContain('private network');
+      }
+    });
+
+    it('should only accept the configured hosts when allowedHosts is set', () => {
+      service.configure({ allowedHosts: ['hooks.example.com', 'relay.internal'] });
+
+      expect(service.checkUrl('https://hooks.example.com/a2a')).toBeUndefined();
+      expect(service.checkUrl('http://relay.internal:8080/a2a')).toBeUndefined();
+      expect(service.checkUrl('https://other.example.com/a2a')).toContain('not allowed');
+    });
+
+    it('should not deliver to a host name resolving to a private address', async () => {
+      addresses = ['10.0.0.7'];
+      service.setConfig('push-private', { url: 'https://rebind.example.com/a2a' });
+
+      await runTask('push-private');
+
+      expect(requests).toHaveLength(0);
+      const [deadLetter] = service.getDeadLetters();
+      expect(deadLetter.attempts).toBe(1);
+      expect(deadLetter.error).toContain('resolves to a private address');
+    });
+  });
+});
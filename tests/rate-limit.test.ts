@@ -0,0 +1,82 @@
+/**
+ * Unit tests for rate limiting
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RateLimiter } from '../src/rate-limit.js';
+
+describe('RateLimiter', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = Date.UTC(2026, 0, 1, 12, 0, 0);
+  });
+
+  it('should allow a burst then refill at the configured rate', () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 6, burst: 2 }, clock);
+
+    expect(limiter.consume('alice').allowed).toBe(true);
+    expect(limiter.consume('alice').allowed).toBe(true);
+    expect(limiter.consume('alice')).toEqual({ allowed: false, reason: 'rate_limited', retryAfterSec: 10 });
+
+    // Other callers have their own bucket
+    expect(limiter.consume('bob').allowed).toBe(true);
+
+    now += 10000;
+    expect(limiter.consume('alice').allowed).toBe(true);
+    expect(limiter.consume('alice').allowed).toBe(false);
+  });
+
+  it('should enforce the daily quota until midnight UTC', () => {
+    const limiter = new RateLimiter({ dailyTaskQuota: 2 }, clock);
+
+    limiter.consume('alice');
+    limiter.consume('alice');
+    expect(limiter.consume('alice')).toEqual({ allowed: false, reason: 'quota_exceeded', retryAfterSec: 12 * 3600 });
+
+    now = Date.UTC(2026, 0, 2, 0, 0, 1);
+    expect(limiter.consume('alice').allowed).toBe(true);
+  });
+
+  it('should apply per-caller limits and report usage', () => {
+    const limiter = new RateLimiter({
+      requestsPerMinute: 60,
+      dailyTaskQuota: 100,
+      callers: { batch: { dailyTaskQuota: 1 } }
+    }, clock);
+
+    limiter.consume('alice');
+    limiter.consume('batch');
+    expect(limiter.consume('batch').allowed).toBe(false);
+
+    expect(limiter.getUsage()).toEqual([
+      { key: 'alice', tasksToday: 1, dailyTaskQuota: 100, remainingBurst: 59, requestsPerMinute: 60 },
+      { key: 'batch', tasksToday: 1, dailyTaskQuota: 1 }
+    ]);
+    expect(limiter.getUsage('carol')).toEqual([
+      { key: 'carol', tasksToday: 0, dailyTaskQuota: 100, remainingBurst: 60, requestsPerMinute: 60 }
+    ]);
+  });
+
+  it('should give back a released send', () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 6, burst: 1, dailyTaskQuota: 1 }, clock);
+
+    expect(limiter.consume('alice').allowed).toBe(true);
+    limiter.release('alice');
+    expect(limiter.getUsage('alice')).toEqual([
+      { key: 'alice', tasksToday: 0, dailyTaskQuota: 1, remainingBurst: 1, requestsPerMinute: 6 }
+    ]);
+    expect(limiter.consume('alice').allowed).toBe(true);
+    expect(limiter.consume('alice').allowed).toBe(false);
+  });
+
+  it('should not take caller limits from Object.prototype', () => {
+    const limiter = new RateLimiter({ dailyTaskQuota: 1, callers: {} }, clock);
+
+    for (const key of ['constructor', '__proto__', 'toString']) {
+      expect(limiter.consume(key).allowed).toBe(true);
+      expect(limiter.consume(key)).toMatchObject({ allowed: false, reason: 'quota_exceeded' });
+    }
+  });
+});
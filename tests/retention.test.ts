@@ -0,0 +1,86 @@
+/**
+ * Unit tests for task retention
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TaskManager } from '../src/task-manager.js';
+import { RetentionService } from '../src/retention.js';
+import { InMemoryTaskStore } from '../src/task-store.js';
+import type { Task } from '../src/models.js';
+
+function makeTask(id: string, state: Task['status']['state'], ageMs = 0): Task {
+  return {
+    id,
+    sessionId: 'session-1',
+    status: { state, timestamp: new Date(Date.now() - ageMs).toISOString() },
+    artifacts: [],
+    history: [],
+    metadata: {}
+  };
+}
+
+describe('Retention', () => {
+  let store: InMemoryTaskStore;
+  let manager: TaskManager;
+
+  beforeEach(() => {
+    store = new InMemoryTaskStore();
+    manager = new TaskManager({ store });
+  });
+
+  it('should evict terminal tasks by age per state', () => {
+    store.save(makeTask('old-completed', 'completed', 2000));
+    store.save(makeTask('old-failed', 'failed', 2000));
+    store.save(makeTask('fresh-completed', 'completed', 0));
+
+    const stats = manager.applyRetention({ maxAgeMs: { completed: 1000, failed: 5000 } });
+
+    expect(stats.evictedByAge).toBe(1);
+    expect(manager.getTask('old-completed')).toBeUndefined();
+    expect(manager.getTask('old-failed')).toBeDefined();
+    expect(manager.getTask('fresh-completed')).toBeDefined();
+  });
+
+  it('should never evict non-terminal tasks', () => {
+    store.save(makeTask('waiting', 'input-required', 10000));
+    store.save(makeTask('queued', 'submitted', 10000));
+    store.save(makeTask('done', 'completed', 10000));
+
+    const stats = manager.applyRetention({
+      maxAgeMs: { completed: 0 },
+      maxTasks: 0
+    });
+
+    expect(stats.evictedByAge).toBe(1);
+    expect(stats.remaining).toBe(2);
+    expect(manager.getTask('waiting')).toBeDefined();
+    expect(manager.getTask('queued')).toBeDefined();
+  });
+
+  it('should evict the oldest terminal tasks above maxTasks', () => {
+    store.save(makeTask('t-1', 'completed'));
+    store.save(makeTask('t-2', 'working'));
+    store.save(makeTask('t-3', 'canceled'));
+    store.save(makeTask('t-4', 'completed'));
+
+    const stats = manager.applyRetention({ maxTasks: 2 });
+
+    expect(stats.evictedByCapacity).toBe(2);
+    expect(manager.getAllTasks().map(t => t.id)).toEqual(['t-2', 't-4']);
+  });
+
+  it('should log eviction stats from the service', () => {
+    store.save(makeTask('old', 'completed', 2000));
+    const messages: string[] = [];
+    const service = new RetentionService(
+      manager,
+      { maxAgeMs: { completed: 1000 } },
+      { info: (message) => messages.push(message), error: (message) => messages.push(message) }
+    );
+
+    const stats = service.runOnce();
+
+    expect(stats!.evictedByAge).toBe(1);
+    expect(messages[0]).toContain('evicted 1 task(s)');
+  });
+});
@@ -3,14 +3,16 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { handleRPC } from '../src/rpc-handler.js';
+import { handleRPC, handleRPCBatch, isNotification, SSE_STREAM_MARKER } from '../src/rpc-handler.js';
 import { taskManager } from '../src/task-manager.js';
+import { pushNotifications } from '../src/push-notifications.js';
 
 describe('RPC Handler', () => {
   beforeEach(() => {
     taskManager.setHandler(async (msg) => ({
       response: { role: 'agent', parts: [{ type: 'text', text: 'Processed' }] }
     }));
+    pushNotifications.configure({ enabled: true });
   });
 
   describe('handleRPC', () => {
@@ -68,6 +70,36 @@ describe('RPC Handler', () => {
       }
     });
 
+    it('should only return state transitions when requested', async () => {
+      await handleRPC({
+        jsonrpc: '2.0',
+        method: 'tasks/send',
+        params: {
+          id: 'rpc-task-transitions',
+          message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }
+        },
+        id: 'req-send'
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const plain = await handleRPC({
+        jsonrpc: '2.0',
+        method: 'tasks/get',
+        params: { id: 'rpc-task-transitions' },
+        id: 'req-get-1'
+      });
+      const detailed = await handleRPC({
+        jsonrpc: '2.0',
+        method: 'tasks/get',
+        params: { id: 'rpc-task-transitions', includeStateTransitions: true },
+        id: 'req-get-2'
+      });
+
+      expect(plain.result.stateTransitions).toBeUndefined();
+      expect(detailed.result.stateTransitions.map((t: { to: string }) => t.to))
+        .toEqual(['submitted', 'working', 'completed']);
+    });
+
     it('should return error for non-existent task in tasks/get', async () => {
       const request = {
         jsonrpc: '2.0',
@@ -125,6 +157,148 @@ describe('RPC Handler', () => {
       expect(response.error!.message).toContain('not found');
     });
 
+    it('should reject tasks/send on a completed task', async () => {
+      const request = {
+        jsonrpc: '2.0',
+        method: 'tasks/send',
+        params: {
+          id: 'rpc-task-5',
+          message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }
+        },
+        id: 'req-1'
+      };
+      await handleRPC(request);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const response = await handleRPC({ ...request, id: 'req-2' });
+
+      expect(response.error).toBeDefined();
+      expect(response.error!.code).toBe(-32010);
+      expect(response.error!.message).toContain('completed');
+    });
+
+    it('should return an SSE marker for tasks/resubscribe on an existing task', async () => {
+      await handleRPC({
+        jsonrpc: '2.0',
+        method: 'tasks/send',
+        params: {
+          id: 'rpc-task-resubscribe',
+          message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }
+        },
+        id: 'req-send'
+      });
+
+      const response = await handleRPC({
+        jsonrpc: '2.0',
+        method: 'tasks/resubscribe',
+        params: { id: 'rpc-task-resubscribe', lastEventId: '2' },
+        id: 'req-resubscribe'
+      });
+
+      expect(response[SSE_STREAM_MARKER]).toBe(true);
+      expect(response.mode).toBe('resubscribe');
+      expect(response.params).toEqual({ id: 'rpc-task-resubscribe', lastEventId: 2 });
+    });
+
+    it('should return error for tasks/resubscribe on an unknown task', async () => {
+      const response = await handleRPC({
+        jsonrpc: '2.0',
+        method: 'tasks/resubscribe',
+        params: { id: 'non-existent' },
+        id: 'req-1'
+      });
+
+      expect(response.error!.code).toBe(-32001);
+    });
+
+    it('should register and return the push notification config of a task', async () => {
+      const pushNotificationConfig = { url: 'https://hooks.example.com/a2a', token: 'sub-token' };
+      await handleRPC({
+        jsonrpc: '2.0',
+        method: 'tasks/send',
+        params: {
+          id: 'rpc-task-push',
+          message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] },
+          pushNotification: pushNotificationConfig
+        },
+        id: 'req-send'
+      });
+
+      const response = await handleRPC({
+        jsonrpc: '2.0',
+        method: 'tasks/pushNotification/get',
+        params: { id: 'rpc-task-push' },
+        id: 'req-get'
+      });
+
+      expect(response.result).toEqual({ id: 'rpc-task-push', pushNotificationConfig });
+
+      const other = await handleRPC({
+        jsonrpc: '2.0',
+        method: 'tasks/pushNotification/set',
+        params: { id: 'non-existent', pushNotificationConfig },
+        id: 'req-set'
+      });
+      expect(other.error!.code).toBe(-32001);
+    });
+
+    it('should refuse webhooks on private networks', async () => {
+      for (const url of ['http://169.254.169.254/latest/meta-data', 'http://localhost:8080/hook', 'http://[::1]/hook', 'https://10.0.0.5/hook']) {
+        const response = await handleRPC({
+          jsonrpc: '2.0',
+          method: 'tasks/send',
+          params: {
+            id: 'rpc-task-private-push',
+            message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] },
+            pushNotification: { url }
+          },
+          id: 'req-send'
+        });
+        expect(response.error!.code).toBe(-32602);
+        expect(response.error!.message).toContain('private network');
+      }
+      expect(taskManager.getTask('rpc-task-private-push')).toBeUndefined();
+    });
+
+    it('should answer -32003 when push notifications are disabled', async () => {
+      pushNotifications.configure({ enabled: false });
+
+      const response = await handleRPC({
+        jsonrpc: '2.0',
+        method: 'tasks/pushNotification/get',
+        params: { id: 'rpc-task-1' },
+        id: 'req-get'
+      });
+      expect(response.error!.code).toBe(-32003);
+    });
+
+    it('should reject invalid push notification URLs', async () => {
+      const response = await handleRPC({
+        jsonrpc: '2.0',
+        method: 'tasks/pushNotification/set',
+        params: { id: 'rpc-task-1', pushNotificationConfig: { url: 'file:///etc/passwd' } },
+        id: 'req-1'
+      });
+
+      expect(response.error!.code).toBe(-32602);
+    });
+
+    it('should return a specific error for an unknown skill', async () => {
+      const response = await handleRPC({
+        jsonrpc: '2.0',
+        method: 'tasks/send',
+        params: {
+          id: 'rpc-task-skill',
+          message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] },
+          metadata: { skillId: 'does-not-exist' }
+        },
+        id: 'req-1'
+      });
+
+      expect(response.error!.code).toBe(-32012);
+      expect(response.error!.data).toEqual({ skillId: 'does-not-exist' });
+    });
+
     it('should return error for unknown method', async () => {
       const request = {
         jsonrpc: '2.0',
@@ -196,4 +370,144 @@ describe('RPC Handler', () => {
       expect(response.id).toBe(42);
     });
   });
+
+  describe('protocol dialects', () => {
+    it('should answer message/send and later tasks/get in the current dialect', async () => {
+      const response = await handleRPC({
+        jsonrpc: '2.0',
+        method: 'message/send',
+        params: {
+          message: { kind: 'message', role: 'user', messageId: 'msg-1', parts: [{ kind: 'text', text: 'Hello' }] }
+        },
+        id: 'req-current'
+      });
+      const task = response.result as { kind: string; id: string; contextId: string; history: Array<{ messageId: string }> };
+
+      expect(task.kind).toBe('task');
+      expect(task.contextId).toBeDefined();
+      expect(task.history[0]!.messageId).toBe('msg-1');
+
+      // Methods of both dialects answer in the dialect of the task
+      const get = await handleRPC({ jsonrpc: '2.0', method: 'tasks/get', params: { id: task.id }, id: 2 });
+      expect(get.result).toMatchObject({ kind: 'task', id: task.id, contextId: task.contextId });
+    });
+
+    it('should keep answering legacy requests in the legacy dialect', async () => {
+      const response = await handleRPC({
+        jsonrpc: '2.0',
+        method: 'tasks/send',
+        params: { id: 'rpc-legacy-1', message: { role: 'user', parts: [{ kind: 'text', text: 'Hello' }] } },
+        id: 1
+      });
+
+      expect(response.result).toMatchObject({ id: 'rpc-legacy-1', sessionId: expect.any(String) });
+      expect((response.result as { kind?: string }).kind).toBeUndefined();
+
+      const get = await handleRPC({ jsonrpc: '2.0', method: 'tasks/get', params: { id: 'rpc-legacy-1' }, id: 2 });
+      expect((get.result as { kind?: string }).kind).toBeUndefined();
+    });
+
+    it('should set then get a push notification config in the current dialect', async () => {
+      // The task waits for input, so it still accepts a webhook
+      taskManager.setHandler(async () => ({
+        response: { role: 'agent', parts: [{ type: 'text', text: 'Which city?' }] },
+        inputRequired: true
+      }));
+      const sent = await handleRPC({
+        jsonrpc: '2.0',
+        method: 'message/send',
+        params: { message: { role: 'user', messageId: 'msg-push', parts: [{ kind: 'text', text: 'Hello' }] } },
+        id: 1
+      });
+      const taskId = (sent.result as { id: string }).id;
+      const pushNotificationConfig = { url: 'https://hooks.example.com/a2a', token: 'sub-token' };
+
+      const set = await handleRPC({
+        jsonrpc: '2.0',
+        method: 'tasks/pushNotificationConfig/set',
+        params: { taskId, pushNotificationConfig },
+        id: 2
+      });
+      expect(set.result).toEqual({ taskId, pushNotificationConfig });
+
+      const get = await handleRPC({
+        jsonrpc: '2.0',
+        method: 'tasks/pushNotificationConfig/get',
+        params: { id: taskId },
+        id: 3
+      });
+      expect(get.result).toEqual({ taskId, pushNotificationConfig });
+    });
+
+    it('should stream message/stream in the current dialect', async () => {
+      const response = await handleRPC({
+        jsonrpc: '2.0',
+        method: 'message/stream',
+        params: { message: { role: 'user', messageId: 'msg-1', parts: [{ kind: 'text', text: 'Hello' }] } },
+        id: 'req-stream'
+      });
+
+      expect(response[SSE_STREAM_MARKER]).toBe(true);
+      expect(response.mode).toBe('send');
+      expect(response.dialect).toBe('current');
+      expect(response.params).toMatchObject({ message: { parts: [{ type: 'text', text: 'Hello' }] } });
+    });
+  });
+
+  it('should answer a null request with an invalid request error', async () => {
+    const response = await handleRPC(null);
+
+    expect(response.error?.code).toBe(-32600);
+  });
+
+  describe('handleRPCBatch', () => {
+    const send = (id: string, rpcId?: number) => ({
+      jsonrpc: '2.0',
+      method: 'tasks/send',
+      params: { id, message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] } },
+      ...(rpcId !== undefined ? { id: rpcId } : {})
+    });
+
+    it('should answer each request in order and skip notifications', async () => {
+      const responses = await handleRPCBatch([
+        send('batch-task-1', 1),
+        send('batch-task-2'),
+        { jsonrpc: '2.0', method: 'tasks/get', params: { id: 'batch-task-missing' }, id: 2 },
+        { jsonrpc: '2.0', method: 'tasks/sendSubscribe', params: {}, id: 3 },
+        { method: 'tasks/get' },
+        { jsonrpc: '2.0', method: 'message/stream', params: {}, id: 4 }
+      ]) as Array<{ id: unknown; result?: { id: string }; error?: { code: number } }>;
+
+      expect(responses.map(r => r.id)).toEqual([1, 2, 3, null, 4]);
+      expect(responses[0]!.result!.id).toBe('batch-task-1');
+      expect(responses[1]!.error!.code).toBe(-32001);
+      expect(responses[2]!.error!.code).toBe(-32004);
+      expect(responses[3]!.error!.code).toBe(-32600);
+      expect(responses[4]!.error!.code).toBe(-32004);
+
+      // The notification was executed all the same
+      const get = await handleRPC({ jsonrpc: '2.0', method: 'tasks/get', params: { id: 'batch-task-2' }, id: 4 });
+      expect(get.result).toBeDefined();
+    });
+
+    it('should return nothing for a batch of notifications and an error for an empty batch', async () => {
+      expect(await handleRPCBatch([send('batch-task-3')])).toBeNull();
+      expect(await handleRPCBatch([])).toMatchObject({ error: { code: -32600 }, id: null });
+    });
+
+    it('should answer invalid entries one by one', async () => {
+      const responses = await handleRPCBatch([null, 1]);
+
+      expect(responses).toEqual([
+        expect.objectContaining({ error: expect.objectContaining({ code: -32600 }), id: null }),
+        expect.objectContaining({ error: expect.objectContaining({ code: -32600 }), id: null })
+      ]);
+    });
+
+    it('should tell notifications from requests', () => {
+      expect(isNotification(send('batch-task-4'))).toBe(true);
+      expect(isNotification({ ...send('batch-task-4'), id: null })).toBe(false);
+      expect(isNotification({ method: 'tasks/get' })).toBe(false);
+    });
+  });
 });
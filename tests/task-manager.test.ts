@@ -3,8 +3,8 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { TaskManager } from '../src/task-manager.js';
-import type { Message, TaskSendParams } from '../src/models.js';
+import { TaskManager, InvalidTaskStateError, QueueFullError, SkillNotFoundError } from '../src/task-manager.js';
+import type { Message, TaskEvent, TaskSendParams } from '../src/models.js';
 
 describe('TaskManager', () => {
   let manager: TaskManager;
@@ -124,6 +124,513 @@ describe('TaskManager', () => {
     });
   });
 
+  describe('caller identity', () => {
+    it('should record the caller on the task and pass it to the handler', async () => {
+      const handler = vi.fn().mockResolvedValue({
+        response: { role: 'agent', parts: [{ type: 'text', text: 'Done' }] }
+      });
+      manager.setHandler(handler);
+
+      const task = await manager.createTask({
+        id: 'caller-1',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] },
+        metadata: { caller: 'spoofed' }
+      }, 'orchestrator');
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(task.metadata?.caller).toBe('orchestrator');
+      expect(handler.mock.calls[0][1].caller).toBe('orchestrator');
+    });
+
+    it('should not let requests set metadata.caller themselves', async () => {
+      manager.setHandler(vi.fn().mockResolvedValue({
+        response: { role: 'agent', parts: [{ type: 'text', text: 'Done' }] }
+      }));
+
+      const task = await manager.createTask({
+        id: 'caller-2',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] },
+        metadata: { caller: 'spoofed', priority: 'high' }
+      });
+
+      expect(task.metadata).toEqual({ priority: 'high' });
+    });
+  });
+
+  describe('listTasks by owner', () => {
+    it('should only list the tasks created by the owner', async () => {
+      manager.setHandler(vi.fn().mockResolvedValue({
+        response: { role: 'agent', parts: [{ type: 'text', text: 'Done' }] }
+      }));
+      const message: Message = { role: 'user', parts: [{ type: 'text', text: 'Hello' }] };
+      await manager.createTask({ id: 'owned-1', message }, 'alice');
+      await manager.createTask({ id: 'owned-2', message }, 'bob');
+      await manager.createTask({ id: 'owned-3', message }, 'alice');
+
+      expect(manager.listTasks({ limit: 10 }, 'alice').tasks.map(t => t.id)).toEqual(['owned-1', 'owned-3']);
+      expect(manager.listTasks({ limit: 10 }).tasks).toHaveLength(3);
+    });
+  });
+
+  describe('skill routing', () => {
+    const done = { response: { role: 'agent', parts: [{ type: 'text', text: 'Done' }] } };
+
+    it('should route to the handler of the requested skill', async () => {
+      const fallback = vi.fn().mockResolvedValue(done);
+      const translate = vi.fn().mockResolvedValue(done);
+      manager.setHandler(fallback);
+      manager.registerHandler('translate', translate);
+
+      await manager.createTask({
+        id: 'skill-1',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Bonjour' }], metadata: { skillId: 'translate' } }
+      });
+      await manager.createTask({
+        id: 'skill-2',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(translate).toHaveBeenCalledTimes(1);
+      expect(translate.mock.calls[0][1].skillId).toBe('translate');
+      expect(fallback).toHaveBeenCalledTimes(1);
+      expect(manager.getTask('skill-1')?.metadata?.skillId).toBe('translate');
+    });
+
+    it('should keep follow-up turns on the skill of the task', async () => {
+      const translate = vi.fn()
+        .mockResolvedValueOnce({ ...done, inputRequired: true })
+        .mockResolvedValueOnce(done);
+      manager.setHandler(vi.fn().mockResolvedValue(done));
+      manager.registerHandler('translate', translate);
+
+      await manager.createTask({
+        id: 'skill-3',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Translate' }] },
+        metadata: { skillId: 'translate' }
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      await manager.createTask({
+        id: 'skill-3',
+        message: { role: 'user', parts: [{ type: 'text', text: 'To French' }] }
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(translate).toHaveBeenCalledTimes(2);
+      expect(manager.getTask('skill-3')?.status.state).toBe('completed');
+    });
+
+    it('should reject an unknown skill', async () => {
+      manager.setHandler(vi.fn().mockResolvedValue(done));
+
+      await expect(manager.createTask({
+        id: 'skill-4',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] },
+        metadata: { skillId: 'unknown' }
+      })).rejects.toBeInstanceOf(SkillNotFoundError);
+      expect(manager.getTask('skill-4')).toBeUndefined();
+    });
+
+    it('should fail tasks whose skill was unregistered before they ran', async () => {
+      manager.configureScheduler({ maxConcurrent: 0 });
+      manager.registerHandler('translate', vi.fn().mockResolvedValue(done));
+
+      await manager.createTask({
+        id: 'skill-5',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }], metadata: { skillId: 'translate' } }
+      });
+      manager.unregisterHandler('translate');
+      manager.configureScheduler({ maxConcurrent: 1 });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const task = manager.getTask('skill-5');
+      expect(task?.status.state).toBe('failed');
+      expect(task?.status.message).toBe('Skill not found: translate');
+    });
+  });
+
+  describe('multi-turn tasks', () => {
+    it('should move to input-required and resume with the whole conversation', async () => {
+      const handler = vi.fn()
+        .mockResolvedValueOnce({
+          response: { role: 'agent', parts: [{ type: 'text', text: 'Which city?' }] },
+          inputRequired: true
+        })
+        .mockResolvedValueOnce({
+          response: { role: 'agent', parts: [{ type: 'text', text: 'Sunny in Paris' }] }
+        });
+      manager.setHandler(handler);
+
+      await manager.createTask({
+        id: 'multi-turn-1',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Weather?' }] }
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(manager.getTask('multi-turn-1')!.status.state).toBe('input-required');
+
+      await manager.createTask({
+        id: 'multi-turn-1',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Paris' }] }
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const task = manager.getTask('multi-turn-1')!;
+      expect(task.status.state).toBe('completed');
+      expect(task.history).toHaveLength(4);
+      expect(manager.getAllTasks()).toHaveLength(1);
+
+      const context = handler.mock.calls[1][1];
+      expect(context.taskId).toBe('multi-turn-1');
+      expect(context.history).toHaveLength(3);
+    });
+
+    it('should reject a message for a task that is not waiting for input', async () => {
+      const handler = vi.fn().mockResolvedValue({
+        response: { role: 'agent', parts: [{ type: 'text', text: 'Done' }] }
+      });
+      manager.setHandler(handler);
+
+      const params: TaskSendParams = {
+        id: 'multi-turn-2',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }
+      };
+      await manager.createTask(params);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      await expect(manager.createTask(params)).rejects.toBeInstanceOf(InvalidTaskStateError);
+      expect(manager.getTask('multi-turn-2')!.history).toHaveLength(2);
+    });
+  });
+
+  describe('scheduler', () => {
+    function deferredHandler() {
+      const releases: Array<() => void> = [];
+      const handler = vi.fn().mockImplementation(() => new Promise(resolve => {
+        releases.push(() => resolve({
+          response: { role: 'agent', parts: [{ type: 'text', text: 'Done' }] }
+        }));
+      }));
+      return { handler, releases };
+    }
+
+    function send(id: string, extra: Partial<TaskSendParams> = {}) {
+      return manager.createTask({
+        id,
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] },
+        ...extra
+      });
+    }
+
+    it('should keep tasks submitted beyond the concurrency limit', async () => {
+      const { handler, releases } = deferredHandler();
+      manager = new TaskManager({ scheduler: { maxConcurrent: 1 } });
+      manager.setHandler(handler);
+
+      await send('q-1');
+      const queued = await send('q-2');
+
+      expect(queued.status.state).toBe('submitted');
+      expect(manager.getQueuePosition('q-2')).toBe(1);
+
+      releases[0]!();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(manager.getTask('q-1')!.status.state).toBe('completed');
+      expect(manager.getTask('q-2')!.status.state).toBe('working');
+      expect(manager.getQueuePosition('q-2')).toBeUndefined();
+    });
+
+    it('should start higher priority tasks first', async () => {
+      const { handler, releases } = deferredHandler();
+      manager = new TaskManager({ scheduler: { maxConcurrent: 1 } });
+      manager.setHandler(handler);
+
+      await send('p-running');
+      await send('p-low', { metadata: { priority: 'low' } });
+      await send('p-normal');
+      await send('p-high', { metadata: { priority: 5 } });
+
+      expect(manager.getQueuePosition('p-high')).toBe(1);
+      expect(manager.getQueuePosition('p-normal')).toBe(2);
+      expect(manager.getQueuePosition('p-low')).toBe(3);
+
+      releases[0]!();
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(manager.getTask('p-high')!.status.state).toBe('working');
+    });
+
+    it('should limit concurrent tasks per session', async () => {
+      const { handler } = deferredHandler();
+      manager = new TaskManager({ scheduler: { maxPerSession: 1 } });
+      manager.setHandler(handler);
+
+      await send('s-1', { sessionId: 'a' });
+      await send('s-2', { sessionId: 'a' });
+      await send('s-3', { sessionId: 'b' });
+
+      expect(manager.getTask('s-2')!.status.state).toBe('submitted');
+      expect(manager.getTask('s-3')!.status.state).toBe('working');
+    });
+
+    it('should reject new tasks when the queue is full', async () => {
+      const { handler } = deferredHandler();
+      manager = new TaskManager({ scheduler: { maxConcurrent: 1, maxQueueDepth: 1 } });
+      manager.setHandler(handler);
+
+      await send('f-1');
+      await send('f-2');
+
+      await expect(send('f-3')).rejects.toBeInstanceOf(QueueFullError);
+      expect(manager.getTask('f-3')).toBeUndefined();
+    });
+
+    it('should drop canceled tasks from the queue', async () => {
+      const { handler } = deferredHandler();
+      manager = new TaskManager({ scheduler: { maxConcurrent: 1 } });
+      manager.setHandler(handler);
+
+      await send('c-1');
+      await send('c-2');
+      manager.cancelTask('c-2');
+
+      expect(manager.getQueuePosition('c-2')).toBeUndefined();
+      expect(manager.getTask('c-2')!.status.state).toBe('canceled');
+    });
+  });
+
+  describe('deadlines', () => {
+    it('should fail and abort a task exceeding the default timeout', async () => {
+      let receivedSignal: AbortSignal | undefined;
+      manager = new TaskManager({ defaultTimeoutMs: 20 });
+      manager.setHandler(async (_msg, context) => {
+        receivedSignal = context.signal;
+        await new Promise(resolve => setTimeout(resolve, 100));
+        return { response: { role: 'agent', parts: [{ type: 'text', text: 'Late' }] } };
+      });
+
+      await manager.createTask({
+        id: 'timeout-1',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const task = manager.getTask('timeout-1')!;
+      expect(task.status.state).toBe('failed');
+      expect(task.metadata!.error).toEqual({ type: 'timeout', phase: 'working', reason: 'execution_timeout', timeoutMs: 20 });
+      expect(receivedSignal!.aborted).toBe(true);
+    });
+
+    it('should fail a queued task whose deadline passes', async () => {
+      manager = new TaskManager({ scheduler: { maxConcurrent: 1 } });
+      manager.setHandler(() => new Promise(() => {}));
+
+      await manager.createTask({
+        id: 'deadline-running',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }
+      });
+      await manager.createTask({
+        id: 'deadline-queued',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] },
+        metadata: { deadline: new Date(Date.now() + 20).toISOString() }
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const task = manager.getTask('deadline-queued')!;
+      expect(task.status.state).toBe('failed');
+      expect(task.status.message).toBe('Task deadline exceeded');
+      expect(task.metadata!.error).toMatchObject({ type: 'timeout', reason: 'deadline', phase: 'queued' });
+      expect(manager.getQueuePosition('deadline-queued')).toBeUndefined();
+    });
+
+    it('should apply the deadline of a resumed task waiting for a slot', async () => {
+      manager = new TaskManager({ scheduler: { maxConcurrent: 1 } });
+      manager.setHandler(vi.fn()
+        .mockResolvedValueOnce({
+          response: { role: 'agent', parts: [{ type: 'text', text: 'Which city?' }] },
+          inputRequired: true
+        })
+        .mockImplementation(() => new Promise(() => {})));
+
+      await manager.createTask({
+        id: 'deadline-resumed',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Weather?' }] }
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      await manager.createTask({
+        id: 'deadline-busy',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }
+      });
+
+      await manager.createTask({
+        id: 'deadline-resumed',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Paris' }] },
+        metadata: { deadline: new Date(Date.now() + 20).toISOString() }
+      });
+      expect(manager.getTask('deadline-resumed')!.status.state).toBe('submitted');
+      expect(manager.getQueuePosition('deadline-resumed')).toBe(1);
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const task = manager.getTask('deadline-resumed')!;
+      expect(task.status.state).toBe('failed');
+      expect(task.metadata!.error).toMatchObject({ type: 'timeout', reason: 'deadline', phase: 'queued' });
+    });
+  });
+
+  describe('streaming handlers', () => {
+    it('should emit partial text, progress and artifact chunks as they are produced', async () => {
+      manager.setHandler(async function* () {
+        yield { type: 'status', message: 'Searching' };
+        yield { type: 'text', text: 'Hello ' };
+        yield { type: 'text', text: 'world' };
+        yield { type: 'artifact', artifact: { name: 'report', index: 0, parts: [{ type: 'text', text: 'a' }] } };
+        yield { type: 'artifact', artifact: { index: 0, append: true, lastChunk: true, parts: [{ type: 'text', text: 'b' }] } };
+      });
+
+      const events: TaskEvent[] = [];
+      manager.on('task', (event: TaskEvent) => events.push(structuredClone(event)));
+
+      await manager.createTask({
+        id: 'stream-1',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hi' }] }
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const task = manager.getTask('stream-1')!;
+      expect(task.status.state).toBe('completed');
+      expect(task.history![1].parts).toEqual([{ type: 'text', text: 'Hello world' }]);
+      expect(task.artifacts).toEqual([
+        { name: 'report', index: 0, lastChunk: true, parts: [{ type: 'text', text: 'a' }, { type: 'text', text: 'b' }] }
+      ]);
+
+      expect(events.map(e => e.type)).toEqual([
+        'status', 'status', 'status', 'message', 'message', 'artifact', 'artifact', 'message', 'status'
+      ]);
+      expect(events[2].task.status.message).toBe('Searching');
+      expect(events[3].message!.metadata).toEqual({ partial: true });
+      expect(events[6].artifact).toMatchObject({ append: true, lastChunk: true });
+    });
+
+    it('should stop consuming a streaming handler once canceled', async () => {
+      let produced = 0;
+      manager.setHandler(async function* () {
+        for (let i = 0; i < 10; i++) {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          produced++;
+          yield { type: 'text', text: `${i}` };
+        }
+      });
+
+      await manager.createTask({
+        id: 'stream-2',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hi' }] }
+      });
+      await new Promise(resolve => setTimeout(resolve, 12));
+      manager.cancelTask('stream-2');
+      await new Promise(resolve => setTimeout(resolve, 40));
+
+      expect(produced).toBeLessThan(10);
+      expect(manager.getTask('stream-2')!.history).toHaveLength(1);
+    });
+  });
+
+  describe('event replay', () => {
+    it('should number events per task and replay those after a sequence number', async () => {
+      manager.setHandler(vi.fn().mockResolvedValue({
+        response: { role: 'agent', parts: [{ type: 'text', text: 'Done' }] }
+      }));
+
+      const live: number[] = [];
+      manager.on('task', (event: TaskEvent) => live.push(event.seq));
+
+      await manager.createTask({
+        id: 'replay-1',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(live).toEqual([1, 2, 3, 4]);
+      expect(manager.getLastEventSeq('replay-1')).toBe(4);
+
+      const missed = manager.getEventsSince('replay-1', 2);
+      expect(missed.map(e => e.seq)).toEqual([3, 4]);
+      expect(missed[0].type).toBe('message');
+      // Snapshots keep the state at emission time
+      expect(manager.getEventsSince('replay-1')[0].task.status.state).toBe('submitted');
+    });
+
+    it('should bound the per-task event buffer', async () => {
+      manager = new TaskManager({ eventBufferSize: 2 });
+      manager.setHandler(vi.fn().mockResolvedValue({
+        response: { role: 'agent', parts: [{ type: 'text', text: 'Done' }] }
+      }));
+
+      await manager.createTask({
+        id: 'replay-2',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(manager.getEventsSince('replay-2').map(e => e.seq)).toEqual([3, 4]);
+    });
+
+    it('should rebuild replayed events from the live task', async () => {
+      manager.setHandler(vi.fn().mockResolvedValue({
+        response: { role: 'agent', parts: [{ type: 'text', text: 'Done' }] },
+        artifacts: [{ name: 'report', parts: [{ type: 'text', text: 'Report' }] }]
+      }));
+
+      await manager.createTask({
+        id: 'replay-3',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const [first] = manager.getEventsSince('replay-3');
+      expect(first.task.status.state).toBe('submitted');
+      expect(first.task.artifacts).toEqual(manager.getTask('replay-3')!.artifacts);
+    });
+
+    it('should drop the events of a terminal task after eventLogTtlMs', async () => {
+      manager = new TaskManager({ eventLogTtlMs: 20 });
+      manager.setHandler(vi.fn().mockResolvedValue({
+        response: { role: 'agent', parts: [{ type: 'text', text: 'Done' }] }
+      }));
+
+      await manager.createTask({
+        id: 'replay-4',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(manager.getEventsSince('replay-4')).toHaveLength(4);
+
+      await new Promise(resolve => setTimeout(resolve, 30));
+      expect(manager.getEventsSince('replay-4')).toEqual([]);
+      expect(manager.getTask('replay-4')!.status.state).toBe('completed');
+    });
+  });
+
+  describe('state transitions', () => {
+    it('should record every transition with from and to states', async () => {
+      manager.setHandler(vi.fn().mockRejectedValue(new Error('Boom')));
+
+      await manager.createTask({
+        id: 'transitions-1',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const transitions = manager.getTask('transitions-1')!.stateTransitions!;
+      expect(transitions.map(t => [t.from, t.to])).toEqual([
+        [undefined, 'submitted'],
+        ['submitted', 'working'],
+        ['working', 'failed']
+      ]);
+      expect(transitions[2].message).toBe('Boom');
+      expect(transitions.every(t => typeof t.timestamp === 'string')).toBe(true);
+    });
+  });
+
   describe('getTask', () => {
     it('should return undefined for non-existent task', () => {
       const task = manager.getTask('non-existent');
@@ -176,6 +683,33 @@ describe('TaskManager', () => {
       expect(task!.status.state).toBe('canceled');
     });
 
+    it('should abort a running handler and keep the canceled state', async () => {
+      let receivedSignal: AbortSignal | undefined;
+      const handler = vi.fn().mockImplementation(async (_msg: Message, context) => {
+        receivedSignal = context.signal;
+        await new Promise(resolve => setTimeout(resolve, 30));
+        return {
+          response: { role: 'agent', parts: [{ type: 'text', text: 'Too late' }] },
+          artifacts: [{ parts: [{ type: 'text', text: 'Too late' }] }]
+        };
+      });
+      manager.setHandler(handler);
+
+      await manager.createTask({
+        id: 'cancel-running',
+        message: { role: 'user', parts: [{ type: 'text', text: 'Hello' }] }
+      });
+      expect(manager.cancelTask('cancel-running').success).toBe(true);
+      expect(receivedSignal!.aborted).toBe(true);
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const task = manager.getTask('cancel-running')!;
+      expect(task.status.state).toBe('canceled');
+      expect(task.history).toHaveLength(1);
+      expect(task.artifacts).toEqual([]);
+    });
+
     it('should not cancel a completed task', async () => {
       const handler = vi.fn().mockResolvedValue({
         response: { role: 'agent', parts: [{ type: 'text', text: 'Done' }] }
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for Task Stores
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryTaskStore, FileTaskStore, createTaskStore } from '../src/task-store.js';
+import { TaskManager } from '../src/task-manager.js';
+import type { Task } from '../src/models.js';
+
+function makeTask(id: string, state: Task['status']['state'] = 'completed'): Task {
+  return {
+    id,
+    sessionId: 'session-1',
+    status: { state, timestamp: new Date().toISOString() },
+    artifacts: [],
+    history: [{ role: 'user', parts: [{ type: 'text', text: 'Hello' }] }],
+    metadata: {}
+  };
+}
+
+describe('InMemoryTaskStore', () => {
+  it('should keep insertion order when a task is saved again', () => {
+    const store = new InMemoryTaskStore();
+    store.save(makeTask('a'));
+    store.save(makeTask('b'));
+    store.save(makeTask('a', 'failed'));
+
+    expect(Array.from(store.values()).map(t => t.id)).toEqual(['a', 'b']);
+    expect(store.get('a')!.status.state).toBe('failed');
+  });
+
+  it('should delete tasks', () => {
+    const store = new InMemoryTaskStore();
+    store.save(makeTask('a'));
+    store.delete('a');
+
+    expect(store.get('a')).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+});
+
+describe('FileTaskStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'a2a-store-'));
+    filePath = path.join(dir, 'nested', 'tasks.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should reload saved tasks from the log', () => {
+    const store = new FileTaskStore({ path: filePath });
+    store.save(makeTask('a'));
+    store.save(makeTask('b'));
+    store.delete('a');
+
+    const reloaded = new FileTaskStore({ path: filePath });
+    expect(reloaded.get('a')).toBeUndefined();
+    expect(reloaded.get('b')).toBeDefined();
+    expect(reloaded.size).toBe(1);
+  });
+
+  it('should ignore a truncated last line', () => {
+    const store = new FileTaskStore({ path: filePath });
+    store.save(makeTask('a'));
+    fs.appendFileSync(filePath, '{"op":"put","task":{"id":');
+
+    const reloaded = new FileTaskStore({ path: filePath });
+    expect(reloaded.size).toBe(1);
+  });
+
+  it('should compact the log once it exceeds the threshold', () => {
+    const store = new FileTaskStore({ path: filePath, compactThreshold: 5 });
+    const task = makeTask('a', 'working');
+    for (let i = 0; i < 5; i++) {
+      store.save(task);
+    }
+
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(new FileTaskStore({ path: filePath }).get('a')).toBeDefined();
+  });
+
+  it('should be selected by createTaskStore', () => {
+    expect(createTaskStore({ type: 'file', path: filePath })).toBeInstanceOf(FileTaskStore);
+    expect(createTaskStore()).toBeInstanceOf(InMemoryTaskStore);
+  });
+
+  it('should keep the tasks of each namespace in a separate file', () => {
+    createTaskStore({ type: 'file', path: filePath }, 'support').save(makeTask('a'));
+
+    const namespaced = filePath.replace(/\.jsonl$/, '-support.jsonl');
+    expect(fs.existsSync(namespaced)).toBe(true);
+    expect(new FileTaskStore({ path: filePath }).size).toBe(0);
+  });
+
+  it('should let TaskManager recover interrupted tasks after a restart', () => {
+    const store = new FileTaskStore({ path: filePath });
+    store.save(makeTask('queued', 'submitted'));
+    store.save(makeTask('running', 'working'));
+    store.save(makeTask('done', 'completed'));
+
+    const manager = new TaskManager({ store: new FileTaskStore({ path: filePath }) });
+    expect(manager.recoverInterruptedTasks()).toBe(2);
+
+    const reloaded = new FileTaskStore({ path: filePath });
+    expect(reloaded.get('queued')!.status.state).toBe('failed');
+    expect(reloaded.get('running')!.status.message).toContain('restart');
+    expect(reloaded.get('done')!.status.state).toBe('completed');
+  });
+});